@@ -0,0 +1,483 @@
+import type { Data, RecordBatchWriter, Vector } from 'apache-arrow'
+import { Readable } from 'node:stream'
+import {
+  DataType,
+  Dictionary,
+  Field,
+  Float,
+  Int,
+  Int32,
+  makeData,
+  makeVector,
+  Precision,
+  RecordBatch,
+  Schema,
+  Struct,
+  Type,
+  util,
+  vectorFromArray,
+} from 'apache-arrow'
+import { SchemaError } from './errors.js'
+
+/**
+ * Compare types structurally. Dictionary types compare by value type only: ids and index
+ * widths are per-stream encoding details (see DictionaryUnifier).
+ */
+function sameType(a: DataType, b: DataType): boolean {
+  if (a instanceof Dictionary && b instanceof Dictionary) return sameType(a.dictionary, b.dictionary)
+  // Not `return util.compareTypes(...)` directly: it is a type guard that narrows `b` to `never` on mismatch.
+  return util.compareTypes(a, b)
+}
+
+/**
+ * Assert that batches of `actual` (from input `inputIndex`) can be written under `expected`.
+ *
+ * Fields must match by position, name and type. A non-nullable field may be written
+ * under a nullable one, but not the other way around.
+ */
+export function assertSchemaCompatible(expected: Schema, actual: Schema, inputIndex: number): void {
+  const fail = (reason: string) => {
+    throw new SchemaError(`[mergeArrow] Schema of input ${inputIndex} does not match the first input: ${reason}`, { inputIndex })
+  }
+
+  for (let i = 0; i < Math.max(expected.fields.length, actual.fields.length); i += 1) {
+    const want = expected.fields[i]
+    const got = actual.fields[i]
+
+    if (!got) fail(`missing field '${want!.name}'`)
+    if (!want) fail(`unexpected field '${got!.name}'`)
+    if (want!.name !== got!.name) fail(`field ${i} is '${got!.name}', expected '${want!.name}'`)
+    if (!sameType(want!.type, got!.type)) fail(`field '${got!.name}' has type ${got!.type}, expected ${want!.type}`)
+    if (got!.nullable && !want!.nullable) fail(`field '${got!.name}' is nullable, expected non-nullable`)
+  }
+}
+
+/**
+ * Smallest type both `a` and `b` convert to without loss, or undefined if there is none.
+ */
+function unifyTypes(a: DataType, b: DataType): DataType | undefined {
+  if (sameType(a, b)) return a
+  if (a.typeId === Type.Null) return b
+  if (b.typeId === Type.Null) return a
+
+  if (a instanceof Int && b instanceof Int) {
+    if (a.isSigned === b.isSigned) return a.bitWidth >= b.bitWidth ? a : b
+    const [signed, unsigned] = a.isSigned ? [a, b] : [b, a]
+    if (signed.bitWidth > unsigned.bitWidth) return signed
+    return unsigned.bitWidth < 64 ? new Int(true, (unsigned.bitWidth * 2) as 16 | 32 | 64) : undefined
+  }
+
+  if (a instanceof Float && b instanceof Float) return a.precision >= b.precision ? a : b
+
+  // Integers up to 32 bits are exactly representable as doubles.
+  if (a instanceof Int && b instanceof Float) return a.bitWidth <= 32 ? new Float(Precision.DOUBLE) : undefined
+  if (a instanceof Float && b instanceof Int) return b.bitWidth <= 32 ? new Float(Precision.DOUBLE) : undefined
+
+  return undefined
+}
+
+/**
+ * Build one schema all input schemas convert to.
+ *
+ * Fields are matched by name and ordered by first appearance. Integer and float types are
+ * widened (e.g. Int32 + Int64 -> Int64), fields that are nullable or missing in any input
+ * become nullable, and the first schema's metadata is kept.
+ */
+export function unifySchemas(schemas: { index: number; schema: Schema }[]): Schema {
+  const fields = new Map<string, { type: DataType; nullable: boolean; seen: number }>()
+
+  for (const { index, schema } of schemas) {
+    for (const field of schema.fields) {
+      const current = fields.get(field.name)
+      if (!current) {
+        fields.set(field.name, { type: field.type, nullable: field.nullable, seen: 1 })
+        continue
+      }
+
+      const type = unifyTypes(current.type, field.type)
+      if (!type) {
+        throw new SchemaError(
+          `[mergeArrow] Field '${field.name}' of input ${index} has type ${field.type}, which cannot be unified with ${current.type}`,
+          { inputIndex: index },
+        )
+      }
+      current.type = type
+      current.nullable ||= field.nullable
+      current.seen += 1
+    }
+  }
+
+  const unified = [...fields].map(
+    ([name, { type, nullable, seen }]) => new Field(name, type, nullable || seen < schemas.length),
+  )
+  return new Schema(unified, schemas[0]?.schema.metadata)
+}
+
+function castData(data: Data, type: DataType, length: number): Data {
+  const values: unknown[] = new Array(length)
+  const vector = makeVector(data)
+  const toBigInt = type instanceof Int && type.bitWidth === 64
+
+  for (let i = 0; i < length; i += 1) {
+    const value = vector.get(i)
+    values[i] = value == null ? null : toBigInt ? BigInt(value) : typeof value === 'bigint' ? Number(value) : value
+  }
+
+  return vectorFromArray(values, type).data[0]!
+}
+
+/**
+ * Rewrite a batch so it carries `schema`: columns are matched by name, converted to the
+ * target type when it differs and null-filled when absent.
+ */
+export function conformBatch(batch: RecordBatch, schema: Schema): RecordBatch {
+  if (batch.schema === schema) return batch
+
+  const source = batch.schema.fields
+  const sameLayout = source.length === schema.fields.length &&
+    schema.fields.every((field, i) => field.name === source[i]!.name && sameType(field.type, source[i]!.type))
+  if (sameLayout) return new RecordBatch(schema, batch.data)
+
+  const children = schema.fields.map((field) => {
+    const index = source.findIndex(({ name }) => name === field.name)
+    if (index === -1) return vectorFromArray(new Array(batch.numRows).fill(null), field.type).data[0]!
+
+    const data = batch.data.children[index]!
+    return sameType(field.type, data.type) ? data : castData(data, field.type, batch.numRows)
+  })
+
+  return new RecordBatch(schema, makeData({ type: new Struct(schema.fields), length: batch.numRows, nullCount: 0, children }))
+}
+
+/**
+ * Select the columns at `indexes` of a batch as a batch carrying `schema` (the fields at those
+ * indexes). Column data is shared, not copied.
+ */
+export function projectBatch(batch: RecordBatch, schema: Schema, indexes: number[]): RecordBatch {
+  const children = indexes.map((index) => batch.data.children[index]!)
+  return new RecordBatch(schema, makeData({ type: new Struct(schema.fields), length: batch.numRows, nullCount: 0, children }))
+}
+
+/**
+ * Prepare an output schema for DictionaryUnifier: every top-level dictionary field gets its
+ * own id and indices of at least 32 bits, since the shared dictionary can outgrow the index
+ * width of any single input. Returns the schema itself when it has no dictionary fields.
+ */
+export function withSharedDictionaries(schema: Schema): Schema {
+  if (!schema.fields.some(({ type }) => type instanceof Dictionary)) return schema
+
+  let id = 0
+  const fields = schema.fields.map((field) => {
+    const { type } = field
+    if (!(type instanceof Dictionary)) return field
+    const indices = type.indices.bitWidth < 32 ? new Int32() : type.indices
+    return new Field(field.name, new Dictionary(type.dictionary, indices, id++, false), field.nullable, field.metadata)
+  })
+  return new Schema(fields, schema.metadata)
+}
+
+function dictionaryKey(value: unknown): unknown {
+  if (value === null || typeof value !== 'object') return value
+  if (ArrayBuffer.isView(value)) return `\0${Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString('latin1')}`
+  return `\0${JSON.stringify(value)}`
+}
+
+type SharedDictionary = {
+  vector: Vector
+  /** Shared index of each dictionary value, by dictionaryKey */
+  positions: Map<unknown, number>
+  /** Shared index of every entry of an input dictionary chunk */
+  mapped: WeakMap<Data, Int32Array>
+}
+
+/**
+ * Re-encode top-level dictionary columns against one growing dictionary per field.
+ *
+ * Every input stream carries its own dictionaries, whose indices are meaningless against
+ * another input's dictionary. Values not seen before are appended to the shared dictionary,
+ * so the writer only ever emits delta dictionary batches (valid in both the IPC stream and
+ * file formats). Dictionaries nested inside other types are passed through unchanged.
+ */
+export class DictionaryUnifier {
+  private readonly shared = new Map<number, SharedDictionary>()
+  private readonly schema: Schema
+
+  constructor(schema: Schema) {
+    this.schema = schema
+  }
+
+  unify(batch: RecordBatch): RecordBatch {
+    const source = batch.data.children
+    const children = source.map((data, i) => {
+      const { type } = this.schema.fields[i]!
+      return type instanceof Dictionary && data.dictionary ? this.remap(i, type, data) : data
+    })
+    if (children.every((data, i) => data === source[i])) return batch
+
+    return new RecordBatch(this.schema, makeData({ type: new Struct(this.schema.fields), length: batch.numRows, nullCount: 0, children }))
+  }
+
+  private remap(column: number, type: Dictionary, data: Data): Data {
+    let shared = this.shared.get(column)
+    if (!shared) {
+      shared = { vector: vectorFromArray([], type.dictionary), positions: new Map(), mapped: new WeakMap() }
+      this.shared.set(column, shared)
+    }
+
+    const mapping: number[] = []
+    for (const chunk of data.dictionary!.data) {
+      let mapped = shared.mapped.get(chunk)
+      if (!mapped) {
+        mapped = this.addValues(shared, type, chunk)
+        shared.mapped.set(chunk, mapped)
+      }
+      for (const index of mapped) mapping.push(index)
+    }
+
+    const indices = new type.indices.ArrayType(data.length)
+    for (let i = 0; i < data.length; i += 1) {
+      // Slots under a null bit may hold any value; they map to 0.
+      indices[i] = mapping[data.values[i]] ?? 0
+    }
+
+    return makeData({
+      type,
+      offset: data.offset,
+      length: data.length,
+      nullCount: data.nullCount,
+      nullBitmap: data.nullBitmap,
+      data: indices,
+      dictionary: shared.vector,
+    })
+  }
+
+  private addValues(shared: SharedDictionary, type: Dictionary, chunk: Data): Int32Array {
+    const values = makeVector(chunk)
+    const mapped = new Int32Array(values.length)
+    const added: unknown[] = []
+
+    for (let i = 0; i < values.length; i += 1) {
+      const value = values.get(i)
+      const key = dictionaryKey(value)
+      let position = shared.positions.get(key)
+      if (position === undefined) {
+        position = shared.positions.size
+        shared.positions.set(key, position)
+        added.push(value)
+      }
+      mapped[i] = position
+    }
+
+    // concat() keeps the existing chunks, so the writer emits only the new chunk as a delta.
+    if (added.length > 0) shared.vector = shared.vector.concat(vectorFromArray(added, type.dictionary))
+    return mapped
+  }
+}
+
+/** Props of `makeData` for any type (the type is only known at runtime here) */
+type DataProps = Parameters<typeof makeData>[0]
+
+function concatArrays<T extends NodeJS.TypedArray>(arrays: T[], length = arrays.reduce((n, array) => n + array.length, 0)): T {
+  const out = new (arrays[0]!.constructor as new (length: number) => T)(length)
+  let at = 0
+  for (const array of arrays) {
+    out.set(array as never, at)
+    at += array.length
+  }
+  return out
+}
+
+/** Concatenate bitmaps (validity or boolean values) of `length` bits from each bit `offset`; a missing bitmap is all set. */
+function concatBits(parts: { bits: Uint8Array | undefined; offset: number; length: number }[]): Uint8Array {
+  const length = parts.reduce((n, part) => n + part.length, 0)
+  const out = new Uint8Array(((length + 63) & ~63) >> 3)
+  let at = 0
+  for (const { bits, offset, length: n } of parts) {
+    for (let i = 0; i < n; i += 1) {
+      const bit = offset + i
+      if (!bits || (bits[bit >> 3]! & (1 << (bit & 7)))) out[(at + i) >> 3]! |= 1 << ((at + i) & 7)
+    }
+    at += n
+  }
+  return out
+}
+
+/** Offsets of `chunks` rebased to follow each other, and the range of values each chunk refers to. */
+function concatOffsets(chunks: Data[]): { valueOffsets: Int32Array | BigInt64Array; ranges: [start: number, end: number][] } {
+  const large = chunks[0]!.valueOffsets instanceof BigInt64Array
+  const ranges: [number, number][] = []
+  const offsets: number[] = [0]
+  let base = 0
+  for (const { valueOffsets, length } of chunks) {
+    const start = Number(valueOffsets[0])
+    for (let i = 1; i <= length; i += 1) offsets.push(base + Number(valueOffsets[i]) - start)
+    const end = Number(valueOffsets[length])
+    ranges.push([start, end])
+    base += end - start
+  }
+  return { valueOffsets: large ? BigInt64Array.from(offsets, BigInt) : Int32Array.from(offsets), ranges }
+}
+
+/**
+ * Concatenate column chunks of `type` into one Data by joining their buffers.
+ *
+ * Values are copied as stored: decoding them (`get()`) would round 64-bit timestamps,
+ * times and durations to JS numbers. Dictionary chunks with different dictionaries get
+ * their dictionaries concatenated and their indices shifted. Only unions are decoded.
+ */
+function concatData(type: DataType, chunks: Data[]): Data {
+  if (chunks.length === 1) return chunks[0]!
+
+  const length = chunks.reduce((n, data) => n + data.length, 0)
+  const nullCount = chunks.reduce((n, data) => n + data.nullCount, 0)
+  const nullBitmap = nullCount > 0
+    ? concatBits(chunks.map((data) => ({ bits: data.nullCount > 0 ? data.nullBitmap : undefined, offset: data.offset, length: data.length })))
+    : undefined
+  const base = { type, length, nullCount, ...(nullBitmap && { nullBitmap }) }
+
+  switch (type.typeId) {
+    case Type.Null:
+      return makeData({ type, length } as DataProps)
+    case Type.Bool:
+      return makeData({ ...base, data: concatBits(chunks.map((data) => ({ bits: data.values as Uint8Array, offset: data.offset, length: data.length }))) } as DataProps)
+    case Type.Utf8:
+    case Type.LargeUtf8:
+    case Type.Binary:
+    case Type.LargeBinary: {
+      const { valueOffsets, ranges } = concatOffsets(chunks)
+      const data = concatArrays(chunks.map(({ values }, i) => values.subarray(...ranges[i]!)))
+      return makeData({ ...base, valueOffsets, data } as DataProps)
+    }
+    case Type.List:
+    case Type.Map: {
+      const { valueOffsets, ranges } = concatOffsets(chunks)
+      const child = concatData(type.children[0]!.type, chunks.map(({ children }, i) => children[0]!.slice(ranges[i]![0], ranges[i]![1] - ranges[i]![0])))
+      return makeData({ ...base, valueOffsets, child } as DataProps)
+    }
+    case Type.FixedSizeList:
+      return makeData({ ...base, child: concatData(type.children[0]!.type, chunks.map(({ children }) => children[0]!)) } as DataProps)
+    case Type.Struct: {
+      const children = type.children.map((field: Field, i: number) => concatData(field.type, chunks.map((data) => data.children[i]!)))
+      return makeData({ ...base, children } as DataProps)
+    }
+    case Type.Dictionary: {
+      const dictionaries = [...new Set(chunks.map((data) => data.dictionary!))]
+      const shift = new Map<unknown, number>()
+      dictionaries.reduce((at, dictionary) => (shift.set(dictionary, at), at + dictionary.length), 0)
+      // Indices are written in the type's index width: a conformed chunk may still hold
+      // narrower ones (e.g. Int8 indices under the shared Int32 dictionary type).
+      const indices: NodeJS.TypedArray = new (type as Dictionary).indices.ArrayType(length)
+      // 64-bit indices are bigints.
+      const toIndex = indices instanceof BigInt64Array || indices instanceof BigUint64Array ? BigInt : Number
+      let at = 0
+      for (const { values, dictionary, length: n } of chunks) {
+        const by = shift.get(dictionary)!
+        for (let i = 0; i < n; i += 1, at += 1) (indices as unknown as unknown[])[at] = toIndex(Number(values[i]) + by)
+      }
+      const dictionary = dictionaries.length === 1
+        ? dictionaries[0]!
+        : makeVector(concatData((type as Dictionary).dictionary, dictionaries.flatMap((vector) => vector.data)))
+      return makeData({ ...base, data: indices, dictionary } as DataProps)
+    }
+    case Type.Union: {
+      const values = chunks.flatMap((data) => [...makeVector(data)])
+      return vectorFromArray(values, type).data[0]!
+    }
+    default:
+      // Fixed-width values: the buffers of sliced chunks start at their first row.
+      return makeData({ ...base, data: concatArrays(chunks.map(({ values, stride, length: n }) => values.subarray(0, n * stride))) } as DataProps)
+  }
+}
+
+/**
+ * Concatenate batches sharing `schema` into one batch with contiguous columns.
+ */
+function concatBatches(schema: Schema, batches: RecordBatch[]): RecordBatch {
+  const length = batches.reduce((n, batch) => n + batch.numRows, 0)
+  const children = schema.fields.map((field, i) => concatData(field.type, batches.map((batch) => batch.data.children[i]!)))
+
+  return new RecordBatch(schema, makeData({ type: new Struct(schema.fields), length, nullCount: 0, children }))
+}
+
+/**
+ * Re-chunk a sequence of record batches to uniform sizes.
+ *
+ * Batches are sliced (zero-copy) when they exceed the limits and small batches are
+ * coalesced until `targetBatchRows` rows or about `maxBatchBytes` bytes are pending.
+ * Byte sizes are estimated from the batch buffers, proportionally per row.
+ */
+export class BatchRechunker {
+  private pending: RecordBatch[] = []
+  private pendingRows = 0
+  private pendingBytes = 0
+  private emitted = false
+  private empty: RecordBatch | undefined
+  private readonly schema: Schema
+  private readonly targetRows: number
+  private readonly maxBytes: number
+
+  constructor(schema: Schema, targetBatchRows = Infinity, maxBatchBytes = Infinity) {
+    this.schema = schema
+    this.targetRows = targetBatchRows
+    this.maxBytes = maxBatchBytes
+  }
+
+  *push(batch: RecordBatch): Generator<RecordBatch> {
+    if (batch.numRows === 0) {
+      this.empty ??= batch
+      return
+    }
+
+    const rowBytes = batch.data.byteLength / batch.numRows
+    let offset = 0
+
+    while (offset < batch.numRows) {
+      const room = Math.min(this.targetRows - this.pendingRows, Math.floor((this.maxBytes - this.pendingBytes) / rowBytes))
+      if (room <= 0 && this.pendingRows > 0) {
+        yield this.take()
+        continue
+      }
+
+      const rows = Math.max(1, Math.min(room, batch.numRows - offset))
+      this.pending.push(offset === 0 && rows === batch.numRows ? batch : batch.slice(offset, offset + rows))
+      this.pendingRows += rows
+      this.pendingBytes += rows * rowBytes
+      offset += rows
+
+      if (this.pendingRows >= this.targetRows || this.pendingBytes >= this.maxBytes) yield this.take()
+    }
+  }
+
+  *flush(): Generator<RecordBatch> {
+    if (this.pendingRows > 0) yield this.take()
+    // Keep an all-empty merge writing its schema.
+    else if (!this.emitted && this.empty) yield this.empty
+  }
+
+  private take(): RecordBatch {
+    const batches = this.pending
+    this.pending = []
+    this.pendingRows = 0
+    this.pendingBytes = 0
+    this.emitted = true
+    return batches.length === 1 ? batches[0]! : concatBatches(this.schema, batches)
+  }
+}
+
+/**
+ * Encoded bytes of a writer as a Node stream.
+ *
+ * Used instead of `writer.toNodeStream()`, whose pull loop leaves the rejection of
+ * `writer.abort()` unhandled. Arrow rejects pending reads with `{ done, value }`,
+ * so the actual error is unwrapped here.
+ */
+export function toEncodedStream(writer: RecordBatchWriter): Readable {
+  async function* bytes() {
+    try {
+      yield* writer
+    } catch (e) {
+      throw e !== null && typeof e === 'object' && 'done' in e && 'value' in e ? e.value : e
+    }
+  }
+  return Readable.from(bytes(), { objectMode: false })
+}
@@ -0,0 +1,129 @@
+import type { Transform } from 'node:stream'
+import type { Compression } from './types.js'
+import { Readable } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import zlib from 'node:zlib'
+
+export const COMPRESSIONS: Compression[] = ['gzip', 'deflate', 'brotli', 'zstd']
+
+/**
+ * Compression of streams that cannot be detected from their bytes (brotli has no magic
+ * number), as hinted by response headers when the URL was opened.
+ */
+export const compressionHints = new WeakMap<Readable, Compression>()
+
+// zstd landed in node:zlib in Node 22.15 / 23.8.
+type ZstdZlib = { createZstdCompress?: () => Transform; createZstdDecompress?: () => Transform }
+
+function zstd(method: keyof ZstdZlib): Transform {
+  const create = (zlib as ZstdZlib)[method]
+  if (!create) throw new Error('[merge-streams] zstd is not supported by this Node.js version')
+  return create()
+}
+
+/**
+ * Detect compression from the first bytes of a stream.
+ */
+export function detectCompression(head: Buffer): Compression | undefined {
+  if (head[0] === 0x1f && head[1] === 0x8b) return 'gzip'
+  if (head[0] === 0x28 && head[1] === 0xb5 && head[2] === 0x2f && head[3] === 0xfd) return 'zstd'
+  // zlib header with the common compression levels; other 0x78 pairs can be plain text ("x^").
+  if (head[0] === 0x78 && (head[1] === 0x01 || head[1] === 0x9c || head[1] === 0xda)) return 'deflate'
+  return undefined
+}
+
+/**
+ * Compression hinted by an HTTP response whose body was not decoded by fetch.
+ * Only brotli needs a hint; the other formats are detected from their bytes.
+ */
+export function compressionFromResponse(url: string, headers: Headers): Compression | undefined {
+  const encoding = headers.get('content-encoding')
+  if (encoding && encoding !== 'identity') return undefined
+
+  const type = headers.get('content-type') ?? ''
+  if (/\bbrotli\b/i.test(type) || /\.br$/i.test(new URL(url).pathname)) return 'brotli'
+  return undefined
+}
+
+export function createDecompressor(compression: Compression): Transform {
+  switch (compression) {
+    case 'gzip': return zlib.createGunzip()
+    case 'deflate': return zlib.createInflate()
+    case 'brotli': return zlib.createBrotliDecompress()
+    case 'zstd': return zstd('createZstdDecompress')
+  }
+}
+
+export function createCompressor(compression: Compression): Transform {
+  switch (compression) {
+    case 'gzip': return zlib.createGzip()
+    case 'deflate': return zlib.createDeflate()
+    case 'brotli': return zlib.createBrotliCompress()
+    case 'zstd': return zstd('createZstdCompress')
+  }
+}
+
+/**
+ * A byte stream of `chunks` read from `src`. Destroying it destroys `src` right away, which
+ * also ends a read of `src` still pending (a stalled source would otherwise keep it open),
+ * and releases `src` when `chunks` was never read.
+ */
+export function readableFrom(chunks: AsyncIterable<Buffer>, src: { destroy(): void }): Readable {
+  const out = Readable.from(chunks, { objectMode: false })
+  const destroy = out._destroy.bind(out)
+  out._destroy = (error, callback) => {
+    src.destroy()
+    destroy(error, callback)
+  }
+  return out
+}
+
+/**
+ * Wrap a stream so it is decompressed if its first bytes (or `hint`) say it is compressed.
+ *
+ * Nothing is read until the returned stream is; destroying it destroys `src`.
+ * `onCompressedBytes` receives the size of every compressed chunk read from `src`.
+ */
+export function decompressStream(
+  src: Readable,
+  { hint, onCompressedBytes }: { hint?: Compression | undefined; onCompressedBytes?: ((n: number) => void) | undefined } = {},
+): Readable {
+  async function* bytes(): AsyncGenerator<Buffer> {
+    const it = src[Symbol.asyncIterator]()
+    const head: Buffer[] = []
+    let headLength = 0
+
+    while (headLength < 4) {
+      const next = await it.next()
+      if (next.done) break
+      const chunk = Buffer.isBuffer(next.value) ? next.value : Buffer.from(next.value)
+      head.push(chunk)
+      headLength += chunk.length
+    }
+
+    const compression = hint ?? detectCompression(Buffer.concat(head))
+    async function* raw(): AsyncGenerator<Buffer> {
+      yield* head
+      for (let next = await it.next(); !next.done; next = await it.next())
+        yield Buffer.isBuffer(next.value) ? next.value : Buffer.from(next.value)
+    }
+
+    if (!compression) {
+      yield* raw()
+      return
+    }
+
+    async function* counted(): AsyncGenerator<Buffer> {
+      for await (const chunk of raw()) {
+        onCompressedBytes?.(chunk.length)
+        yield chunk
+      }
+    }
+
+    const decompressor = createDecompressor(compression)
+    pipeline(Readable.from(counted(), { objectMode: false }), decompressor).catch(() => { /* surfaced by the decompressor */ })
+    yield* decompressor
+  }
+
+  return readableFrom(bytes(), src)
+}
@@ -0,0 +1,409 @@
+import type { DataType, Vector } from 'apache-arrow'
+import type { CsvDialect } from './csv.js'
+import type { InputSource, MergeFormat, MergeOptions } from './types.js'
+import { Readable } from 'node:stream'
+import {
+  Decimal,
+  Dictionary,
+  Field,
+  makeData,
+  Map_,
+  RecordBatch,
+  RecordBatchReader,
+  RecordBatchStreamWriter,
+  Schema,
+  Struct,
+  Timestamp,
+  TimeUnit,
+  Type,
+  util,
+  Utf8,
+  vectorFromArray,
+} from 'apache-arrow'
+import { toEncodedStream } from './arrow.js'
+import { formatCsvRecord, parseCsvRecord, readCsvRecords, resolveCsvDialect } from './csv.js'
+import { ParseError } from './errors.js'
+import { ELEMENT_END, JSON_CHUNK_SIZE, readJsonLines, scanJsonArray } from './json.js'
+import { countBytes, countingSource, resolveInputStream } from './util.js'
+
+/** Decoded input: column names and rows of plain (JSON-compatible) values */
+type Rows = {
+  columns: string[]
+  rows: AsyncIterable<unknown[]>
+}
+
+/** Rows per record batch when encoding Arrow (re-chunk with `arrow.targetBatchRows`) */
+const ARROW_BATCH_ROWS = 8192
+
+const noRows: Rows = { columns: [], rows: (async function* () { /* empty */ })() }
+
+/**
+ * Columns shared by the inputs of one conversion. JSON rows carry no header, so every JSON
+ * input takes its columns from the first one decoded, and the re-encoded inputs agree.
+ */
+type SharedColumns = { json?: string[] }
+
+function isCsvFormat(format: MergeFormat): boolean {
+  return format === 'CSV' || format === 'TSV'
+}
+
+function csvDialectFor(format: MergeFormat, options: MergeOptions['csv']): CsvDialect {
+  return resolveCsvDialect({ ...(format === 'TSV' && { delimiter: '\t' }), ...options })
+}
+
+function formatDecimal(value: bigint, scale: number): string {
+  const sign = value < 0n ? '-' : ''
+  const digits = (value < 0n ? -value : value).toString()
+  if (scale <= 0) return `${sign}${digits}${'0'.repeat(-scale)}`
+
+  const padded = digits.padStart(scale + 1, '0')
+  return `${sign}${padded.slice(0, -scale)}.${padded.slice(-scale)}`
+}
+
+function formatTimestamp(epoch: bigint, unit: TimeUnit): string {
+  const perSecond = 10n ** BigInt(unit * 3)
+  let seconds = epoch / perSecond
+  let fraction = epoch % perSecond
+  if (fraction < 0n) {
+    fraction += perSecond
+    seconds -= 1n
+  }
+
+  const iso = new Date(Number(seconds) * 1000).toISOString().slice(0, 19)
+  return unit === TimeUnit.SECOND ? `${iso}Z` : `${iso}.${String(fraction).padStart(unit * 3, '0')}Z`
+}
+
+/**
+ * Convert a value read from an Arrow vector to a plain JSON-compatible value.
+ *
+ * - 64-bit integers and decimals become decimal strings (lossless)
+ * - Dates become 'YYYY-MM-DD', timestamps ISO 8601 UTC strings
+ * - Binary values become base64 strings
+ * - Lists become arrays, structs and maps become objects
+ */
+function plainValue(value: unknown, type: DataType): unknown {
+  if (value === null || value === undefined) return null
+
+  switch (type.typeId) {
+    case Type.Dictionary:
+      return plainValue(value, (type as Dictionary).dictionary)
+    case Type.Decimal:
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return formatDecimal(util.bigNumToBigInt(value as any), (type as Decimal).scale)
+    case Type.Date:
+      return new Date(value as number).toISOString().slice(0, 10)
+    case Type.Timestamp:
+      // Nested values are only available as (fractional) epoch milliseconds.
+      return formatTimestamp(BigInt(Math.floor(value as number)), TimeUnit.MILLISECOND)
+    case Type.Binary:
+    case Type.LargeBinary:
+    case Type.FixedSizeBinary:
+      return Buffer.from(value as Uint8Array).toString('base64')
+    case Type.List:
+    case Type.FixedSizeList:
+      return [...(value as Vector)].map((item) => plainValue(item, type.children[0]!.type))
+    case Type.Struct: {
+      const row = value as Record<string, unknown>
+      return Object.fromEntries(type.children.map((field: Field) => [field.name, plainValue(row[field.name], field.type)]))
+    }
+    case Type.Map: {
+      const { keyType, valueType } = type as Map_
+      return Object.fromEntries(
+        [...(value as Iterable<[unknown, unknown]>)].map(([k, v]) => [String(plainValue(k, keyType)), plainValue(v, valueType)]),
+      )
+    }
+    default:
+      return typeof value === 'bigint' ? String(value) : value
+  }
+}
+
+/**
+ * Read a top-level column as plain values. Timestamps are read from their raw 64-bit
+ * values so sub-millisecond precision is kept.
+ */
+function columnReader(column: Vector, type: DataType): (row: number) => unknown {
+  if (type instanceof Timestamp) {
+    const values = column.data[0]!.values as unknown as BigInt64Array
+    return (row) => (column.isValid(row) ? formatTimestamp(values[row]!, type.unit) : null)
+  }
+  return (row) => plainValue(column.get(row), type)
+}
+
+function toText(value: unknown): string {
+  if (typeof value === 'string') return value
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+async function decodeCsv(src: Readable, inputIndex: number, dialect: CsvDialect): Promise<Rows> {
+  const records = readCsvRecords(src, inputIndex, dialect)
+  const head = await records.next()
+  if (head.done) return noRows
+
+  return {
+    columns: parseCsvRecord(head.value, dialect),
+    rows: (async function* () {
+      for await (const record of records) yield parseCsvRecord(record, dialect)
+    })(),
+  }
+}
+
+function parseJsonElement(text: string, inputIndex: number): unknown {
+  try {
+    return JSON.parse(text)
+  } catch (e) {
+    throw new ParseError(`[mergeStreams] Invalid JSON value in input ${inputIndex}: ${(e as Error).message}`, { inputIndex, cause: e })
+  }
+}
+
+/**
+ * Parse the elements of a JSON array stream one at a time.
+ */
+async function* readJsonArrayElements(src: Readable, inputIndex: number): AsyncGenerator<unknown> {
+  let element = ''
+  for await (const piece of scanJsonArray(src, inputIndex, 'mergeStreams')) {
+    if (piece !== ELEMENT_END) {
+      element += piece
+      continue
+    }
+    yield parseJsonElement(element, inputIndex)
+    element = ''
+  }
+}
+
+async function* readJsonLineValues(src: Readable, inputIndex: number): AsyncGenerator<unknown> {
+  for await (const line of readJsonLines(src)) yield parseJsonElement(line, inputIndex)
+}
+
+/**
+ * Decode JSON values that are all objects (columns from the first object's keys) or all
+ * arrays (columns named by position: '0', '1', ...). The first row decoded from any input
+ * sets the columns of all of them (`shared`).
+ *
+ * Later rows may leave columns out (null), but a key or position that is not a column
+ * fails with a ParseError rather than being dropped.
+ */
+async function decodeJsonRows(elements: AsyncGenerator<unknown>, inputIndex: number, shared: SharedColumns): Promise<Rows> {
+  const first = await elements.next()
+  if (first.done) return noRows
+
+  const isRow = (element: unknown) => element !== null && typeof element === 'object'
+  const byPosition = Array.isArray(first.value)
+  if (!isRow(first.value))
+    throw new ParseError(`[mergeStreams] Expected JSON rows to be objects or arrays in input ${inputIndex}`, { inputIndex })
+
+  const columns = shared.json ??= byPosition ? (first.value as unknown[]).map((_, i) => String(i)) : Object.keys(first.value as object)
+
+  return {
+    columns,
+    rows: (async function* () {
+      const known = new Set(columns)
+      let element: unknown = first.value
+      for (let rowIndex = 0; ; rowIndex += 1) {
+        if (!isRow(element) || Array.isArray(element) !== byPosition)
+          throw new ParseError(`[mergeStreams] JSON rows of input ${inputIndex} must all be objects or all be arrays`, { inputIndex })
+
+        const row = element as Record<string, unknown>
+        const extra = Object.keys(row).find((key) => !known.has(key))
+        if (extra !== undefined) {
+          throw new ParseError(
+            `[mergeStreams] JSON row ${rowIndex} of input ${inputIndex} has ${byPosition ? 'position' : 'key'} '${extra}', ` +
+            `which is not a column of the first JSON row: [${columns.join(', ')}]`,
+            { inputIndex },
+          )
+        }
+        yield columns.map((column) => row[column] ?? null)
+
+        const next = await elements.next()
+        if (next.done) break
+        element = next.value
+      }
+    })(),
+  }
+}
+
+async function decodeArrow(src: Readable): Promise<Rows> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const reader = await RecordBatchReader.from(src[Symbol.asyncIterator]() as any)
+  await reader.open()
+  const schema: Schema | null = reader.schema
+  if (!schema) return noRows
+
+  return {
+    columns: schema.fields.map((field) => field.name),
+    rows: (async function* () {
+      for await (const batch of reader as AsyncIterable<RecordBatch>) {
+        const readers = schema.fields.map((field, i) => columnReader(batch.getChildAt(i)!, field.type))
+        for (let row = 0; row < batch.numRows; row += 1) yield readers.map((read) => read(row))
+      }
+    })(),
+  }
+}
+
+async function* encodeCsv({ columns, rows }: Rows, dialect: CsvDialect): AsyncGenerator<string> {
+  if (columns.length === 0) return
+
+  const eol = dialect.lineTerminator
+  let buffer = `${formatCsvRecord(columns, dialect)}${eol}`
+
+  for await (const row of rows) {
+    buffer += `${formatCsvRecord(row.map((value) => (value === null ? '' : toText(value))), dialect)}${eol}`
+    if (buffer.length >= JSON_CHUNK_SIZE) {
+      yield buffer
+      buffer = ''
+    }
+  }
+  yield buffer
+}
+
+function toJsonObject(columns: string[], row: unknown[]): string {
+  return JSON.stringify(Object.fromEntries(columns.map((column, i) => [column, row[i]])))
+}
+
+async function* encodeJsonArray({ columns, rows }: Rows): AsyncGenerator<string> {
+  let buffer = '['
+  let separator = ''
+
+  for await (const row of rows) {
+    buffer += separator + toJsonObject(columns, row)
+    separator = ','
+    if (buffer.length >= JSON_CHUNK_SIZE) {
+      yield buffer
+      buffer = ''
+    }
+  }
+  yield `${buffer}]`
+}
+
+async function* encodeJsonLines({ columns, rows }: Rows): AsyncGenerator<string> {
+  let buffer = ''
+
+  for await (const row of rows) {
+    buffer += `${toJsonObject(columns, row)}\n`
+    if (buffer.length >= JSON_CHUNK_SIZE) {
+      yield buffer
+      buffer = ''
+    }
+  }
+  yield buffer
+}
+
+/**
+ * Encode rows as an Arrow IPC stream of nullable Utf8 columns.
+ */
+function encodeArrow({ columns, rows }: Rows): Readable {
+  if (columns.length === 0) return Readable.from([])
+
+  const schema = new Schema(columns.map((name) => new Field(name, new Utf8(), true)))
+  const toBatch = (buffered: unknown[][]) => new RecordBatch(schema, makeData({
+    type: new Struct(schema.fields),
+    length: buffered.length,
+    nullCount: 0,
+    children: columns.map((_, i) => vectorFromArray(buffered.map((row) => (row[i] === null ? null : toText(row[i]))), new Utf8()).data[0]!),
+  }))
+
+  async function* batches() {
+    let buffered: unknown[][] = []
+    for await (const row of rows) {
+      buffered.push(row)
+      if (buffered.length >= ARROW_BATCH_ROWS) {
+        yield toBatch(buffered)
+        buffered = []
+      }
+    }
+    if (buffered.length > 0) yield toBatch(buffered)
+  }
+
+  const writer = new RecordBatchStreamWriter({ autoDestroy: true })
+  const encoded = toEncodedStream(writer)
+  writer.writeAll(batches()).catch((e: Error) => writer.abort(e))
+  return encoded
+}
+
+async function decode(
+  format: MergeFormat,
+  src: Readable,
+  inputIndex: number,
+  options: MergeOptions,
+  to: MergeFormat,
+  shared: SharedColumns,
+): Promise<Rows> {
+  switch (format) {
+    case 'CSV':
+    case 'TSV':
+      // `csv` options describe the output when converting between CSV and TSV.
+      return decodeCsv(src, inputIndex, csvDialectFor(format, isCsvFormat(to) ? {} : options.csv))
+    case 'JSON_ARRAY':
+      return decodeJsonRows(readJsonArrayElements(src, inputIndex), inputIndex, shared)
+    case 'JSON_LINES':
+      return decodeJsonRows(readJsonLineValues(src, inputIndex), inputIndex, shared)
+    case 'ARROW_STREAM':
+      return decodeArrow(src)
+    default: {
+      const neverFormat: never = format
+      throw new Error(`[mergeStreams] Unsupported format: ${String(neverFormat)}`)
+    }
+  }
+}
+
+function encode(format: MergeFormat, rows: Rows, options: MergeOptions): Readable {
+  switch (format) {
+    case 'CSV':
+    case 'TSV':
+      return Readable.from(encodeCsv(rows, csvDialectFor(format, options.csv)), { objectMode: false })
+    case 'JSON_ARRAY':
+      return Readable.from(encodeJsonArray(rows), { objectMode: false })
+    case 'JSON_LINES':
+      return Readable.from(encodeJsonLines(rows), { objectMode: false })
+    case 'ARROW_STREAM':
+      return encodeArrow(rows)
+    default: {
+      const neverFormat: never = format
+      throw new Error(`[mergeStreams] Unsupported output format: ${String(neverFormat)}`)
+    }
+  }
+}
+
+function transcodeInput(
+  input: InputSource,
+  index: number,
+  options: MergeOptions,
+  from: MergeFormat,
+  to: MergeFormat,
+  shared: SharedColumns,
+): InputSource {
+  return countingSource(async ({ onInputBytes, ...counters }) => {
+    const source = await resolveInputStream(input, { decompress: options.decompress, ...counters })
+    // Counted as read from the source, before the bytes are re-encoded.
+    const src = onInputBytes ? countBytes(source, onInputBytes) : source
+    try {
+      const encoded = encode(to, await decode(from, src, index, options, to, shared), options)
+      encoded.once('close', () => src.destroy())
+      return encoded
+    } catch (e) {
+      src.destroy()
+      throw e
+    }
+  })
+}
+
+/**
+ * Wrap the inputs of `options` in format `from` as inputs in format `to`.
+ *
+ * Each input is decoded into rows and re-encoded while streaming, and so is every replacement
+ * returned by `onInputError`; the result is meant for the `to` format's merge function.
+ */
+export function transcodeOptions(options: MergeOptions, from: MergeFormat, to: MergeFormat): MergeOptions {
+  const { inputs, onInputError } = options
+  const shared: SharedColumns = {}
+  return {
+    ...options,
+    inputs: inputs.map((input, index) => transcodeInput(input, index, options, from, to, shared)),
+    ...(typeof onInputError === 'function' && {
+      onInputError: async (error, index) => {
+        const replacement = await onInputError(error, index)
+        return replacement && transcodeInput(replacement, index, options, from, to, shared)
+      },
+    }),
+    outputFormat: to,
+  }
+}
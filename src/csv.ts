@@ -0,0 +1,210 @@
+import type { Readable } from 'node:stream'
+import type { CsvHeaderMismatch, CsvOptions } from './types.js'
+import { ParseError } from './errors.js'
+
+/** CSV dialect with defaults applied */
+export type CsvDialect = {
+  delimiter: string
+  quote: string | undefined
+  stripBom: boolean
+  emitBom: boolean
+  lineTerminator: '\n' | '\r\n'
+  headerMismatch: CsvHeaderMismatch
+}
+
+const HEADER_MISMATCH_POLICIES: CsvHeaderMismatch[] = ['passthrough', 'error', 'reorder', 'union']
+
+const BOM = '\uFEFF'
+
+function isSingleChar(value: string): boolean {
+  return value.length === 1 && value !== '\r' && value !== '\n'
+}
+
+/**
+ * Apply defaults to CSV options and validate them.
+ */
+export function resolveCsvDialect({
+  delimiter = ',',
+  quote = '"',
+  stripBom = true,
+  emitBom = false,
+  lineTerminator = '\n',
+  headerMismatch = 'passthrough',
+}: CsvOptions = {}): CsvDialect {
+  if (!isSingleChar(delimiter))
+    throw new Error('[mergeCsv] csv.delimiter must be a single character other than CR or LF')
+  if (quote !== false && (!isSingleChar(quote) || quote === delimiter))
+    throw new Error('[mergeCsv] csv.quote must be a single character other than CR, LF or the delimiter')
+  if (lineTerminator !== '\n' && lineTerminator !== '\r\n')
+    throw new Error('[mergeCsv] csv.lineTerminator must be \'\\n\' or \'\\r\\n\'')
+  if (!HEADER_MISMATCH_POLICIES.includes(headerMismatch))
+    throw new Error(`[mergeCsv] csv.headerMismatch must be one of: ${HEADER_MISMATCH_POLICIES.join(', ')}`)
+
+  return { delimiter, quote: quote === false ? undefined : quote, stripBom, emitBom, lineTerminator, headerMismatch }
+}
+
+/**
+ * Read RFC 4180 records from a CSV stream.
+ *
+ * Yields each record's raw text without its line terminator. Quoted fields may contain
+ * delimiters, escaped quotes ("") and embedded CR/LF; those stay part of the record.
+ * As in RFC 4180, only a quote at the start of a field opens a quoted field; elsewhere
+ * (e.g. `5'10" tall`) it is a literal character.
+ * A trailing '\r' before the terminating '\n' is dropped, and so is a leading BOM when
+ * `dialect.stripBom` is set.
+ */
+export async function* readCsvRecords(src: Readable, inputIndex: number, dialect: CsvDialect): AsyncGenerator<string> {
+  src.setEncoding('utf8')
+
+  const { quote } = dialect
+  let bomChecked = !dialect.stripBom
+  let carry = ''
+  let start = 0 // start of the current record in carry
+  let pos = 0 // scan position in carry
+  let inQuotes = false
+  let closedAt = -1 // position after the last closing quote in carry (a quote there is escaped)
+  let consumed = 0 // bytes read so far
+
+  for await (const chunk of src) {
+    consumed += Buffer.byteLength(String(chunk))
+    carry = carry.slice(start) + String(chunk)
+    pos -= start
+    closedAt -= start
+    start = 0
+
+    if (!bomChecked && carry.length > 0) {
+      if (carry.startsWith(BOM)) carry = carry.slice(BOM.length)
+      bomChecked = true
+    }
+
+    const findQuote = (from: number) => quote === undefined ? -1 : carry.indexOf(quote, from)
+    const opensQuotes = (at: number) => at === start || carry[at - 1] === dialect.delimiter || at === closedAt
+
+    // Cached positions of the next quote / line feed at or after pos (-1 = none in carry).
+    let nextQuote = findQuote(pos)
+    let nextLf = inQuotes ? -1 : carry.indexOf('\n', pos)
+
+    while (pos < carry.length) {
+      if (inQuotes) {
+        if (nextQuote === -1) break
+        inQuotes = false
+        pos = closedAt = nextQuote + 1
+        nextQuote = findQuote(pos)
+        nextLf = carry.indexOf('\n', pos)
+        continue
+      }
+
+      if (nextQuote !== -1 && (nextLf === -1 || nextQuote < nextLf)) {
+        if (!opensQuotes(nextQuote)) {
+          nextQuote = findQuote(nextQuote + 1)
+          continue
+        }
+        inQuotes = true
+        pos = nextQuote + 1
+        nextQuote = findQuote(pos)
+        continue
+      }
+
+      if (nextLf === -1) break
+
+      let record = carry.slice(start, nextLf)
+      if (record.endsWith('\r')) record = record.slice(0, -1)
+      yield record
+
+      start = pos = nextLf + 1
+      nextLf = carry.indexOf('\n', pos)
+    }
+
+    pos = carry.length
+  }
+
+  if (inQuotes) {
+    throw new ParseError(`[mergeCsv] Unterminated quoted field at end of input ${inputIndex}`, {
+      inputIndex,
+      byteOffset: consumed - Buffer.byteLength(carry.slice(start)),
+    })
+  }
+
+  let record = carry.slice(start)
+  if (record.length > 0) {
+    if (record.endsWith('\r')) record = record.slice(0, -1)
+    yield record
+  }
+}
+
+/**
+ * Split a raw record (as yielded by readCsvRecords) into unquoted field values.
+ */
+export function parseCsvRecord(record: string, { delimiter, quote }: CsvDialect): string[] {
+  const fields: string[] = []
+  let field = ''
+  let fieldStart = 0
+  let inQuotes = false
+
+  for (let i = 0; i < record.length; i += 1) {
+    const ch = record[i]!
+
+    if (inQuotes) {
+      if (ch !== quote) {
+        field += ch
+      } else if (record[i + 1] === quote) {
+        field += quote
+        i += 1
+      } else {
+        inQuotes = false
+      }
+    } else if (ch === quote && i === fieldStart) {
+      inQuotes = true
+    } else if (ch === delimiter) {
+      fields.push(field)
+      field = ''
+      fieldStart = i + 1
+    } else {
+      field += ch
+    }
+  }
+
+  fields.push(field)
+  return fields
+}
+
+/**
+ * Join field values into a raw record, quoting fields that contain the delimiter,
+ * the quote character or a line break.
+ */
+export function formatCsvRecord(fields: string[], { delimiter, quote }: CsvDialect): string {
+  if (quote === undefined) return fields.join(delimiter)
+
+  return fields
+    .map((field) => {
+      if (!field.includes(delimiter) && !field.includes(quote) && !/[\r\n]/.test(field)) return field
+      return `${quote}${field.split(quote).join(quote + quote)}${quote}`
+    })
+    .join(delimiter)
+}
+
+/**
+ * For each column in `to`, find its position in `from` (-1 if absent).
+ * Repeated column names are matched by occurrence.
+ */
+export function mapColumns(from: string[], to: string[]): number[] {
+  const positions = new Map<string, number[]>()
+  from.forEach((name, index) => positions.set(name, [...(positions.get(name) ?? []), index]))
+  return to.map((name) => positions.get(name)?.shift() ?? -1)
+}
+
+/**
+ * Union of column lists, keeping the order of first appearance.
+ */
+export function unionColumns(headers: string[][]): string[] {
+  const columns: string[] = []
+  for (const fields of headers) {
+    const unmatched = [...columns]
+    for (const name of fields) {
+      const at = unmatched.indexOf(name)
+      if (at === -1) columns.push(name)
+      else unmatched.splice(at, 1)
+    }
+  }
+  return columns
+}
@@ -0,0 +1,251 @@
+import type { DatabricksFormat, InputSource, MergeDatabricksResultOptions, MergeResult, OpenUrlOptions } from './types.js'
+import type { RecordBatch } from 'apache-arrow'
+import type { Readable } from 'node:stream'
+import { PassThrough, Transform } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import { RecordBatchReader } from 'apache-arrow'
+import { readCsvRecords, resolveCsvDialect } from './csv.js'
+import { abortError, FetchError, MergeError, toFetchError } from './errors.js'
+import { withRetryEvents } from './events.js'
+import { ELEMENT_END, scanJsonArray } from './json.js'
+import { mergeStreams } from './mergeStreams.js'
+import { assertColumns, openUrlAsReadable, selectColumns, splitOpenUrlOptions } from './util.js'
+
+const LABEL = 'mergeDatabricksResult'
+
+const DATABRICKS_FORMATS: DatabricksFormat[] = ['ARROW_STREAM', 'CSV', 'JSON_ARRAY']
+
+/** External link of one result chunk, as returned by the Statement Execution API */
+type ExternalLink = {
+  chunk_index: number
+  row_count: number
+  external_link: string
+  /** Headers required by the external link (e.g. on Azure) */
+  http_headers?: Record<string, string>
+  next_chunk_internal_link?: string
+}
+
+type ResultData = {
+  external_links?: ExternalLink[]
+}
+
+type StatementResponse = {
+  statement_id: string
+  status: { state: string; error?: { message?: string } }
+  manifest?: {
+    format: string
+    total_chunk_count: number
+    chunks?: { chunk_index: number; row_count?: number; byte_count?: number }[]
+    schema?: { columns?: { name: string; position: number }[] }
+  }
+  result?: ResultData
+}
+
+function apiBaseUrl(host: string): string {
+  return (/^https?:\/\//i.test(host) ? host : `https://${host}`).replace(/\/+$/, '')
+}
+
+async function fetchApi<T>(
+  url: string,
+  token: string,
+  signal: AbortSignal | undefined,
+  { fetch: fetchImpl = globalThis.fetch, requestInit }: OpenUrlOptions,
+): Promise<T> {
+  const headers = new Headers(requestInit?.headers)
+  headers.set('authorization', `Bearer ${token}`)
+  const res = await fetchImpl(url, { ...requestInit, headers, ...(signal && { signal }) }).catch((e: unknown) => {
+    throw signal?.aborted ? abortError(signal, `[${LABEL}]`) : toFetchError(e, `[${LABEL}]`, url)
+  })
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => undefined) as { message?: string } | undefined
+    throw new FetchError(
+      `[${LABEL}] Failed to fetch '${url}': ${res.status} ${res.statusText}${body?.message ? ` (${body.message})` : ''}`,
+      { url, status: res.status },
+    )
+  }
+  return await res.json() as T
+}
+
+/**
+ * Header record of chunk 0, which later CSV chunks may or may not repeat. Resolved by
+ * chunk 0's row count with its first record, or `undefined` when chunk 0 has no records
+ * or fails to open (a later chunk's first record is then its header, as in `mergeCsv`).
+ */
+type ChunkHeader = {
+  record: Promise<string | undefined>
+  resolve: (record: string | undefined) => void
+}
+
+function chunkHeader(): ChunkHeader {
+  let resolve!: ChunkHeader['resolve']
+  const record = new Promise<string | undefined>((r) => { resolve = r })
+  return { record, resolve }
+}
+
+/**
+ * Count the rows of one chunk: records after the header (CSV), array elements (JSON_ARRAY)
+ * or record batch rows (ARROW_STREAM).
+ */
+async function countRows(format: DatabricksFormat, src: Readable, chunkIndex: number, header: ChunkHeader): Promise<number> {
+  let rows = 0
+  switch (format) {
+    case 'CSV': {
+      let head: string | undefined
+      try {
+        for await (const record of readCsvRecords(src, chunkIndex, resolveCsvDialect())) {
+          if (rows === 0) head = record
+          if (rows === 0 && chunkIndex === 0) header.resolve(record)
+          rows += 1
+        }
+      } finally {
+        if (chunkIndex === 0) header.resolve(head)
+      }
+      // Chunk 0 starts with the header; a later chunk only when its first record repeats it.
+      const headed = head !== undefined && (chunkIndex === 0 || head === (await header.record ?? head))
+      return headed ? rows - 1 : rows
+    }
+    case 'JSON_ARRAY':
+      for await (const piece of scanJsonArray(src, chunkIndex, LABEL)) {
+        if (piece === ELEMENT_END) rows += 1
+      }
+      return rows
+    case 'ARROW_STREAM': {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const reader = await RecordBatchReader.from(src[Symbol.asyncIterator]() as any)
+      await reader.open()
+      for await (const batch of reader as AsyncIterable<RecordBatch>) rows += batch.numRows
+      return rows
+    }
+  }
+}
+
+/**
+ * Pass a chunk through unchanged while counting its rows on the side, failing at the end
+ * of the chunk when the count differs from the chunk's `row_count`.
+ */
+function withRowCountCheck(
+  src: Readable,
+  format: DatabricksFormat,
+  chunkIndex: number,
+  expected: number,
+  header: ChunkHeader,
+): Readable {
+  const side = new PassThrough()
+  const counted = countRows(format, side, chunkIndex, header)
+
+  const checked = new Transform({
+    transform(chunk, _enc, cb) {
+      if (side.write(chunk)) cb(null, chunk)
+      else side.once('drain', () => cb(null, chunk))
+    },
+    flush(cb) {
+      side.end()
+      counted.then(
+        (rows) => cb(rows === expected ? null : new MergeError(
+          `[${LABEL}] Chunk ${chunkIndex} has ${rows} rows, expected row_count ${expected}`,
+          { inputIndex: chunkIndex },
+        )),
+        () => { /* destroyed below */ },
+      )
+    },
+  })
+
+  counted.catch((e: Error) => checked.destroy(e))
+  checked.once('close', () => side.destroy())
+  pipeline(src, checked).catch(() => { /* surfaced by the merge */ })
+  return checked
+}
+
+/**
+ * Merge the result of a Databricks SQL statement executed with the `EXTERNAL_LINKS` disposition.
+ *
+ * - Reads the statement's manifest (the statement must have SUCCEEDED) and merges its chunks in order
+ * - Follows `next_chunk_internal_link` to each chunk's external link, fetching it only when
+ *   the chunk is about to be opened, so short-lived presigned URLs are used while still fresh
+ * - Fetches a fresh link for a chunk whose presigned link has expired (up to `maxRefreshes` times)
+ * - Sends the token to the Statement Execution API only, never to the presigned links
+ *   (which get their `http_headers` and the `headers` option instead)
+ * - Fails when a chunk's row count differs from its `row_count`
+ */
+export async function mergeDatabricksResult({
+  host,
+  token,
+  statementId,
+  format,
+  ...databricksOptions
+}: MergeDatabricksResultOptions): Promise<MergeResult> {
+  const [openOptions, options] = splitOpenUrlOptions(databricksOptions)
+  const { signal } = options
+  assertColumns(options.columns, LABEL)
+  const baseUrl = apiBaseUrl(host)
+  const statementPath = `/api/2.0/sql/statements/${encodeURIComponent(statementId)}`
+  const statement = await fetchApi<StatementResponse>(`${baseUrl}${statementPath}`, token, signal, openOptions)
+
+  const { state, error } = statement.status
+  if (state !== 'SUCCEEDED')
+    throw new MergeError(`[${LABEL}] Statement ${statementId} is ${state}, expected SUCCEEDED${error?.message ? `: ${error.message}` : ''}`)
+
+  const { manifest, result } = statement
+  const resultFormat = manifest?.format as DatabricksFormat
+  if (!manifest || !DATABRICKS_FORMATS.includes(resultFormat))
+    throw new MergeError(`[${LABEL}] Unsupported result format: ${manifest?.format}`)
+  if (format !== undefined && format !== resultFormat)
+    throw new MergeError(`[${LABEL}] Statement ${statementId} has format ${resultFormat}, expected ${format}`)
+  if (!result?.external_links)
+    throw new MergeError(`[${LABEL}] Statement ${statementId} has no external links (EXTERNAL_LINKS disposition required)`)
+  if (manifest.total_chunk_count === 0)
+    throw new MergeError(`[${LABEL}] Statement ${statementId} has no result chunks`)
+
+  const fetchLink = async (i: number, path: string): Promise<ExternalLink> => {
+    const data = await fetchApi<ResultData>(`${baseUrl}${path}`, token, signal, openOptions)
+    const link = data.external_links?.find((l) => l.chunk_index === i)
+    if (!link) throw new MergeError(`[${LABEL}] No external link for chunk ${i} of statement ${statementId}`)
+    return link
+  }
+  const chunkPath = async (i: number): Promise<string> => {
+    const fallback = `${statementPath}/result/chunks/${i}`
+    return i === 0 ? fallback : (await linkFor(i - 1)).next_chunk_internal_link ?? fallback
+  }
+
+  // Chunk 0's link comes with the statement; later links are fetched when their chunk is opened.
+  const first = result.external_links.find((l) => l.chunk_index === 0)
+  const links: Promise<ExternalLink>[] = []
+  const linkFor = (i: number): Promise<ExternalLink> => links[i] ??= i === 0 && first
+    ? Promise.resolve(first)
+    : chunkPath(i).then((path) => fetchLink(i, path))
+
+  const header = chunkHeader()
+  const inputs: InputSource[] = Array.from({ length: manifest.total_chunk_count }, (_, i) => async () => {
+    // An expired presigned link is replaced by a freshly fetched one.
+    let resolved = false
+    const resolveLink = async () => {
+      if (resolved) links[i] = chunkPath(i).then((path) => fetchLink(i, path))
+      resolved = true
+      const { external_link: url, http_headers: headers } = await linkFor(i)
+      return headers ? new Request(url, { headers }) : url
+    }
+
+    const body = await openUrlAsReadable(resolveLink, signal, `[${LABEL}]`, withRetryEvents(openOptions, options.hooks, i))
+      .catch((e: unknown) => {
+        if (i === 0) header.resolve(undefined)
+        throw e
+      })
+    return withRowCountCheck(body, resultFormat, i, (await linkFor(i)).row_count, header)
+  })
+
+  // The manifest's chunk sizes make progress percentages row-accurate.
+  const chunks = manifest.chunks ?? []
+  const expectedSizes = options.expectedSizes ?? inputs.map((_, i) => {
+    const chunk = chunks.find((c) => c.chunk_index === i)
+    return chunk && { ...(chunk.row_count !== undefined && { rows: chunk.row_count }), ...(chunk.byte_count !== undefined && { bytes: chunk.byte_count }) }
+  })
+
+  // JSON_ARRAY rows are arrays, so column names are looked up in the manifest's schema.
+  const schemaColumns = manifest.schema?.columns?.slice().sort((a, b) => a.position - b.position)
+  const columns = resultFormat === 'JSON_ARRAY' && options.columns && schemaColumns
+    ? selectColumns(options.columns, schemaColumns.map(({ name }) => name), LABEL, 'the result schema')
+    : options.columns
+
+  return mergeStreams(resultFormat, { ...options, inputs, expectedSizes, ...(columns && { columns }) })
+}
@@ -0,0 +1,116 @@
+/** Where a merge error happened */
+export type MergeErrorDetails = {
+  /** Index of the input that failed */
+  inputIndex?: number | undefined
+  /** URL of the input that failed */
+  url?: string | undefined
+  /** Bytes of the input read before the failure was detected */
+  byteOffset?: number | undefined
+  /** Underlying error */
+  cause?: unknown
+}
+
+/**
+ * Base class of the errors a merge fails with (aborts fail with the signal's reason instead).
+ *
+ * Provenance fields are undefined when unknown or not tied to an input.
+ */
+export class MergeError extends Error {
+  inputIndex: number | undefined
+  url: string | undefined
+  byteOffset: number | undefined
+
+  constructor(message: string, { inputIndex, url, byteOffset, cause }: MergeErrorDetails = {}) {
+    super(message, cause === undefined ? undefined : { cause })
+    this.name = new.target.name
+    this.inputIndex = inputIndex
+    this.url = url
+    this.byteOffset = byteOffset
+  }
+}
+
+/** An input could not be fetched or its body was interrupted */
+export class FetchError extends MergeError {
+  /** HTTP status, when the server responded with an error */
+  status: number | undefined
+
+  constructor(message: string, { status, ...details }: MergeErrorDetails & { status?: number | undefined } = {}) {
+    super(message, details)
+    this.status = status
+  }
+}
+
+/** An input is not valid in its format */
+export class ParseError extends MergeError {}
+
+/** An input's columns or schema cannot be merged with the other inputs */
+export class SchemaError extends MergeError {}
+
+/** A merge was aborted by a signal without a reason */
+export class AbortError extends MergeError {}
+
+/** An input took too long to connect or to send data, or the merge passed its deadline */
+export class TimeoutError extends MergeError {
+  /** Which timeout elapsed: `connectTimeoutMs`, `idleTimeoutMs` or `deadlineMs` */
+  timeout: 'connect' | 'idle' | 'deadline'
+  /** The timeout, in milliseconds */
+  timeoutMs: number
+
+  constructor(
+    message: string,
+    { timeout, timeoutMs, ...details }: MergeErrorDetails & { timeout: TimeoutError['timeout']; timeoutMs: number },
+  ) {
+    super(message, details)
+    this.timeout = timeout
+    this.timeoutMs = timeoutMs
+  }
+}
+
+/** The error an aborted operation fails with: the signal's reason, or an AbortError without one */
+export function abortError(signal: AbortSignal, label: string): unknown {
+  return signal.reason ?? new AbortError(`${label} Aborted`)
+}
+
+function isAbort(e: unknown): boolean {
+  return e instanceof Error && e.name === 'AbortError'
+}
+
+/**
+ * Attach input provenance to an error raised while opening or reading an input.
+ *
+ * Merge errors get the missing fields filled in; aborts pass through unchanged;
+ * anything else is wrapped in a MergeError whose `cause` is the original error.
+ */
+export function toInputError(
+  e: unknown,
+  label: string,
+  details: { inputIndex: number; byteOffset?: number | undefined; action: 'open' | 'read' },
+): unknown {
+  const { inputIndex, byteOffset, action } = details
+  if (e instanceof MergeError) {
+    e.inputIndex ??= inputIndex
+    e.byteOffset ??= byteOffset
+    return e
+  }
+  if (isAbort(e)) return e
+  return new MergeError(`[${label}] Failed to ${action} input ${inputIndex}: ${(e as Error)?.message ?? String(e)}`, {
+    inputIndex,
+    byteOffset,
+    cause: e,
+  })
+}
+
+/**
+ * Turn an error raised while fetching a URL into a FetchError for that URL
+ * (merge errors get the URL filled in; aborts pass through unchanged).
+ */
+export function toFetchError(e: unknown, label: string, url: string | undefined, byteOffset?: number): unknown {
+  if (e instanceof MergeError) {
+    e.url ??= url
+    e.byteOffset ??= byteOffset
+    return e
+  }
+  if (isAbort(e)) return e
+  const target = url === undefined ? '' : ` '${url}'`
+  return new FetchError(`${label} Failed to fetch${target}: ${(e as Error)?.message ?? String(e)}`, { url, byteOffset, cause: e })
+}
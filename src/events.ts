@@ -0,0 +1,34 @@
+import type { MergeEvents, MergeHooks, OpenUrlOptions } from './types.js'
+import diagnosticsChannel, { type Channel } from 'node:diagnostics_channel'
+
+const channels = new Map<keyof MergeEvents, Channel>()
+
+/**
+ * Publish a lifecycle event to its `hooks` callback and its diagnostics channel
+ * (`merge-streams:<name>`).
+ */
+export function publishEvent<K extends keyof MergeEvents>(hooks: MergeHooks | undefined, name: K, event: MergeEvents[K]): void {
+  const hook = hooks?.[`on${name[0]!.toUpperCase()}${name.slice(1)}` as `on${Capitalize<K>}`] as
+    ((event: MergeEvents[K]) => void) | undefined
+  hook?.(event)
+
+  let channel = channels.get(name)
+  if (!channel) channels.set(name, channel = diagnosticsChannel.channel(`merge-streams:${name}`))
+  if (channel.hasSubscribers) channel.publish(event)
+}
+
+/** `options` for opening input `inputIndex` whose retries publish `retry` events */
+export function withRetryEvents<T extends OpenUrlOptions>(options: T, hooks: MergeHooks | undefined, inputIndex: number): T {
+  const { retry } = options
+  if (!retry) return options
+  return {
+    ...options,
+    retry: {
+      ...retry,
+      onRetry: (event) => {
+        retry.onRetry?.(event)
+        publishEvent(hooks, 'retry', { ...event, inputIndex })
+      },
+    },
+  }
+}
@@ -0,0 +1,99 @@
+import type { CustomFormats, FormatMergeContext, FormatMerger, MergeOptions, MergeResult } from './types.js'
+import { Writable } from 'node:stream'
+import {
+  assertNonEmptyArray,
+  countInputBytes,
+  endWritable,
+  InputRecovery,
+  openInputs,
+  ProgressTracker,
+  throwIfAborted,
+  withOutput,
+  writeToWritable,
+} from './util.js'
+
+const BUILTIN_FORMATS = new Set(['ARROW_STREAM', 'CSV', 'TSV', 'JSON_ARRAY', 'JSON_LINES'])
+
+const formatMergers = new Map<string, FormatMerger>()
+
+/**
+ * Register a merger for a custom format, making it available to `mergeStreams` and
+ * `mergeStreamsFromUrls`. Registering a name again replaces its merger; built-in formats
+ * cannot be replaced.
+ *
+ * Add the name to the `CustomFormats` interface so it type-checks as a `MergeFormat`.
+ */
+export function registerFormat(name: keyof CustomFormats & string, merger: FormatMerger): void {
+  if (typeof name !== 'string' || !name)
+    throw new Error('[registerFormat] name must be a non-empty string')
+  if (BUILTIN_FORMATS.has(name))
+    throw new Error(`[registerFormat] Cannot replace built-in format: ${name}`)
+  if (typeof merger !== 'function')
+    throw new Error('[registerFormat] merger must be a function')
+
+  formatMergers.set(name, merger)
+}
+
+export function getFormatMerger(name: string): FormatMerger | undefined {
+  return formatMergers.get(name)
+}
+
+/**
+ * Run a custom merger with the input handling, progress tracking, abort checks and
+ * output compression of the built-in formats.
+ */
+export async function runFormatMerger(name: string, merger: FormatMerger, options: MergeOptions): Promise<MergeResult> {
+  const label = `mergeStreams:${name}`
+  const { inputs, signal, limit, offset, columns } = options
+  assertNonEmptyArray(inputs, label)
+  // Rows and columns are only known to the merger.
+  if (limit !== undefined || offset !== undefined)
+    throw new Error(`[${label}] limit and offset are not supported for custom formats`)
+  if (columns !== undefined)
+    throw new Error(`[${label}] columns are not supported for custom formats`)
+
+  const tracker = new ProgressTracker(options, label)
+  const recovery = new InputRecovery(options, label, tracker)
+  await withOutput(options, tracker, label, async (output) => {
+    const counted = new Writable({
+      write(chunk: Buffer, _enc, cb) {
+        writeToWritable(output, chunk).then(() => {
+          tracker.addBytes(0, chunk.length)
+          cb()
+        }, cb)
+      },
+      final(cb) {
+        endWritable(output).then(() => cb(), cb)
+      },
+    })
+
+    const context: FormatMergeContext = {
+      options,
+      async *inputs() {
+        for await (const { index, stream } of openInputs(options, label, tracker, recovery)) {
+          tracker.startInput(index)
+          yield { index, stream: countInputBytes(stream, index, tracker) }
+          // The merger asks for the next input once it is done with this one.
+          tracker.endInput(index)
+        }
+      },
+      output: counted,
+      write: (chunk) => writeToWritable(counted, chunk),
+      signal,
+      throwIfAborted: () => throwIfAborted(signal, label),
+      tracker,
+    }
+
+    try {
+      await merger(context)
+    } catch (e) {
+      counted.destroy()
+      throw e
+    }
+
+    tracker.finish()
+    await endWritable(counted)
+  })
+
+  return tracker.complete({ ...tracker.summary(), skipped: recovery.skipped })
+}
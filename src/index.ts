@@ -5,9 +5,19 @@ export type * from './types.js'
 export { mergeArrow } from './mergeArrow.js'
 export { mergeCsv } from './mergeCsv.js'
 export { mergeJson } from './mergeJson.js'
+export { mergeJsonLines } from './mergeJsonLines.js'
 
 // Unified API
 export { mergeStreams, mergeStreamsFromUrls } from './mergeStreams.js'
+export { registerFormat } from './formats.js'
+
+// Databricks Statement Execution results
+export { mergeDatabricksResult } from './databricks.js'
+
+// Errors
+export { MergeError, FetchError, ParseError, SchemaError, AbortError, TimeoutError } from './errors.js'
+export type { MergeErrorDetails } from './errors.js'
 
 // Utilities
 export { openUrlAsReadable, isHttpUrl } from './util.js'
+export { registerScheme } from './schemes.js'
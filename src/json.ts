@@ -0,0 +1,204 @@
+import type { Readable } from 'node:stream'
+import { ParseError, SchemaError } from './errors.js'
+
+/** Yielded by scanJsonArray after the last piece of each element */
+export const ELEMENT_END = Symbol('ELEMENT_END')
+
+/** Flush threshold for buffered JSON text */
+export const JSON_CHUNK_SIZE = 64 * 1024
+
+function isWhitespaceChar(value: string): boolean {
+  return value === ' ' || value === '\n' || value === '\r' || value === '\t'
+}
+
+/**
+ * Scan a JSON array stream without parsing its elements.
+ *
+ * Yields the array content in pieces (outer brackets, separating commas and whitespace
+ * between elements removed), and ELEMENT_END after each element. With `compact`, all
+ * whitespace outside strings is dropped, so no element spans multiple lines.
+ *
+ * Malformed arrays fail with a ParseError at the offending byte.
+ */
+export async function* scanJsonArray(
+  src: Readable,
+  inputIndex: number,
+  label: string,
+  { compact = false }: { compact?: boolean } = {},
+): AsyncGenerator<string | typeof ELEMENT_END> {
+  src.setEncoding('utf8')
+
+  let started = false
+  let finished = false
+  let depth = 0
+  let inString = false
+  let escape = false
+  let piece = ''
+  let hasElement = false
+  let consumed = 0 // bytes read so far, including the current chunk
+
+  const parseError = (message: string, rest = '') => new ParseError(
+    `[${label}] ${message} (input ${inputIndex})`,
+    { inputIndex, byteOffset: consumed - Buffer.byteLength(rest) },
+  )
+
+  for await (const chunk of src) {
+    const text = String(chunk)
+    consumed += Buffer.byteLength(text)
+
+    for (let i = 0; i < text.length; i += 1) {
+      const ch = text[i]!
+
+      if (!started) {
+        if (isWhitespaceChar(ch)) continue
+        if (ch !== '[') throw parseError('Expected JSON array input', text.slice(i))
+        started = true
+        depth = 1
+        continue
+      }
+
+      if (finished) {
+        if (!isWhitespaceChar(ch)) throw parseError('Unexpected data after JSON array end', text.slice(i))
+        continue
+      }
+
+      if (inString) {
+        piece += ch
+        if (escape) escape = false
+        else if (ch === '\\') escape = true
+        else if (ch === '"') inString = false
+      } else if (ch === ']' && depth === 1) {
+        depth = 0
+        finished = true
+      } else if (ch === ',' && depth === 1) {
+        if (piece) yield piece
+        piece = ''
+        if (hasElement) yield ELEMENT_END
+        hasElement = false
+      } else if (isWhitespaceChar(ch)) {
+        if (depth > 1 && !compact) piece += ch
+      } else {
+        if (ch === '"') inString = true
+        else if (ch === '[' || ch === '{') depth += 1
+        else if (ch === ']' || ch === '}') depth -= 1
+        piece += ch
+        hasElement = true
+      }
+
+      if (finished || piece.length >= JSON_CHUNK_SIZE) {
+        if (piece) yield piece
+        piece = ''
+        if (finished && hasElement) yield ELEMENT_END
+      }
+    }
+  }
+
+  if (!started) throw parseError('Empty input')
+  if (!finished) throw parseError('Unterminated JSON array')
+}
+
+/**
+ * Split JSON text at its top-level commas (outside strings, arrays and objects), trimming each part.
+ */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let inString = false
+  let escape = false
+  let start = 0
+
+  for (let i = 0; i < text.length; i += 1) {
+    const ch = text[i]!
+    if (inString) {
+      if (escape) escape = false
+      else if (ch === '\\') escape = true
+      else if (ch === '"') inString = false
+    } else if (ch === '"') {
+      inString = true
+    } else if (ch === '[' || ch === '{') {
+      depth += 1
+    } else if (ch === ']' || ch === '}') {
+      depth -= 1
+    } else if (ch === ',' && depth === 0) {
+      parts.push(text.slice(start, i).trim())
+      start = i + 1
+    }
+  }
+
+  const last = text.slice(start).trim()
+  if (last || parts.length > 0) parts.push(last)
+  return parts
+}
+
+function decodeJsonString(text: string): string | undefined {
+  try {
+    return JSON.parse(text) as string
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Select `columns` of a JSON array or object element without parsing its values.
+ *
+ * Indexes select array positions (null when out of range) and names select object keys
+ * (left out when absent), in the order of `columns`. The result is compact at the top level.
+ */
+export function projectJsonElement(element: string, columns: (string | number)[], inputIndex: number, label: string): string {
+  const text = element.trim()
+  const fail = (message: string) => new SchemaError(`[${label}] ${message} (input ${inputIndex})`, { inputIndex })
+  const kind = text.startsWith('[') ? 'array' : text.startsWith('{') ? 'object' : undefined
+  if (!kind) throw fail('Cannot select columns of a JSON element that is not an array or object')
+
+  const wrongKind = columns.find((column) => typeof column !== (kind === 'array' ? 'number' : 'string'))
+  if (wrongKind !== undefined)
+    throw fail(`Columns of ${kind} elements must be ${kind === 'array' ? 'indexes' : 'names'}, got ${JSON.stringify(wrongKind)}`)
+
+  const members = splitTopLevel(text.slice(1, -1))
+  if (kind === 'array')
+    return `[${columns.map((column) => members[column as number] ?? 'null').join(',')}]`
+
+  // Keys are decoded to match them, and written as they appear; a repeated key keeps its last value.
+  const entries = new Map<string, string>()
+  for (const member of members) {
+    const key = /^"(?:[^"\\]|\\.)*"/.exec(member)?.[0]
+    const value = key && member.slice(key.length).trimStart()
+    const name = value?.startsWith(':') ? decodeJsonString(key!) : undefined
+    if (name === undefined)
+      throw new ParseError(`[${label}] Invalid JSON object member: ${member.slice(0, 40)} (input ${inputIndex})`, { inputIndex })
+    entries.set(name, `${key}:${value!.slice(1).trim()}`)
+  }
+
+  const selected = new Set(columns as string[])
+  return `{${[...selected].flatMap((name) => entries.get(name) ?? []).join(',')}}`
+}
+
+/**
+ * Read the lines of a JSON Lines stream, skipping blank lines.
+ * Lines may end with LF or CRLF; the last line may lack a terminator.
+ */
+export async function* readJsonLines(src: Readable): AsyncGenerator<string> {
+  src.setEncoding('utf8')
+
+  let carry = ''
+
+  for await (const chunk of src) {
+    const text = String(chunk)
+    const end = text.lastIndexOf('\n')
+    if (end === -1) {
+      carry += text
+      continue
+    }
+
+    const lines = (carry + text.slice(0, end)).split('\n')
+    carry = text.slice(end + 1)
+
+    for (const line of lines) {
+      const trimmed = line.endsWith('\r') ? line.slice(0, -1) : line
+      if (trimmed.trim()) yield trimmed
+    }
+  }
+
+  const last = carry.endsWith('\r') ? carry.slice(0, -1) : carry
+  if (last.trim()) yield last
+}
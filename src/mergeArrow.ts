@@ -1,74 +1,288 @@
-import type { MergeOptions } from './types.js'
+import type { MergeOptions, MergeResult } from './types.js'
+import type { RecordBatch, RecordBatchWriter, Schema } from 'apache-arrow'
+import type { Readable } from 'node:stream'
 import { pipeline } from 'node:stream/promises'
-import { RecordBatchReader, RecordBatchStreamWriter } from 'apache-arrow'
-import { assertNonEmptyArray, createByteCounter, ProgressTracker, resolveInputStream, throwIfAborted } from './util.js'
+import { RecordBatchFileWriter, RecordBatchReader, RecordBatchStreamWriter } from 'apache-arrow'
+import {
+  assertSchemaCompatible,
+  BatchRechunker,
+  conformBatch,
+  DictionaryUnifier,
+  projectBatch,
+  toEncodedStream,
+  unifySchemas,
+  withSharedDictionaries,
+} from './arrow.js'
+import { MergeError, ParseError } from './errors.js'
+import { publishEvent } from './events.js'
+import {
+  assertColumns,
+  assertNonEmptyArray,
+  countInputBytes,
+  createByteCounter,
+  InputCursor,
+  InputRecovery,
+  openInputs,
+  ProgressTracker,
+  RowWindow,
+  selectColumns,
+  throwIfAborted,
+  withOutput,
+} from './util.js'
+
+type ArrowInput = {
+  index: number
+  stream: Readable
+  /** Input schema, undefined for an empty input */
+  schema: Schema | undefined
+  batches: AsyncIterator<RecordBatch>
+}
+
+/** Errors of arrow's reader (other than input and abort errors) mean the input is not valid IPC */
+function toArrowError(e: unknown, inputIndex: number, signal: AbortSignal | undefined): unknown {
+  if (signal?.aborted || e instanceof MergeError) return e
+  return new ParseError(`[mergeArrow] Invalid Arrow IPC stream in input ${inputIndex}: ${(e as Error)?.message ?? String(e)}`, {
+    inputIndex,
+    cause: e,
+  })
+}
+
+async function openArrowInput(
+  index: number,
+  stream: Readable,
+  tracker: ProgressTracker,
+  signal: AbortSignal | undefined,
+): Promise<ArrowInput> {
+  const inputCounter = countInputBytes(stream, index, tracker)
+
+  let it: AsyncIterator<RecordBatch> | undefined
+  let schema: Schema | undefined
+  try {
+    // Read through the async iterator: arrow's Node stream adapter treats 'error' as end of input.
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const reader = await RecordBatchReader.from(inputCounter[Symbol.asyncIterator]() as any)
+    await reader.open()
+    schema = reader.schema ?? undefined
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    it = (reader as any)[Symbol.asyncIterator]?.() as AsyncIterator<RecordBatch> | undefined
+  } catch (e) {
+    throw toArrowError(e, index, signal)
+  }
+  if (!it)
+    throw new Error('[mergeArrow] Reader is not async-iterable')
+
+  const source = it
+  const batches: AsyncIterator<RecordBatch> = {
+    next: () => source.next().catch((e: unknown) => { throw toArrowError(e, index, signal) }),
+  }
+  return { index, stream, schema, batches }
+}
 
 /**
  * Merge multiple Apache Arrow IPC streams into one IPC stream.
  *
- * - Reads each input sequentially as a stream
- * - Decodes record batches and re-encodes them into a single output Arrow IPC stream
+ * - Reads each input sequentially as a stream, optionally prefetching upcoming inputs
+ * - Decodes record batches and re-encodes them into a single output Arrow IPC stream,
+ *   or an IPC file (footer written at the end) with `arrow.ipcFormat: 'file'`
  * - Memory efficient (batch-by-batch); avoids materializing full tables
  *
  * Notes:
  * - This does NOT byte-concatenate inputs (consumers usually stop at first EOS).
- * - Assumes all input streams have identical schema.
+ * - By default every input must have the first input's schema; a mismatch fails with the
+ *   input index and offending field. `arrow.schemaMode: 'unify'` merges compatible schemas.
+ * - Batches pass through one-to-one unless `arrow.targetBatchRows` / `arrow.maxBatchBytes`
+ *   ask for uniform batch sizes.
+ * - Dictionary-encoded columns are re-encoded against one shared dictionary per column,
+ *   emitted as delta dictionary batches (indices are widened to at least 32 bits).
+ * - Failed inputs are handled according to `onInputError`; only complete record batches are
+ *   written, and an input whose schema does not match (or cannot be unified) counts as failed.
+ * - `offset` / `limit` count rows across batches (a batch straddling a bound is sliced); reading
+ *   stops once `limit` rows are written, and the output still ends with the schema and EOS.
+ * - With `columns`, writes only the selected columns (by name or index in the output schema).
  */
-export async function mergeArrow(options: MergeOptions): Promise<void> {
-  const { inputs, output, signal } = options
+export async function mergeArrow(options: MergeOptions): Promise<MergeResult> {
+  const { inputs, signal, hooks, columns } = options
   assertNonEmptyArray(inputs, 'mergeArrow')
+  assertColumns(columns, 'mergeArrow')
 
-  const tracker = new ProgressTracker(options)
-  const writer = new RecordBatchStreamWriter({ autoDestroy: true })
-  const encoded = writer.toNodeStream({ objectMode: false })
+  const { schemaMode = 'strict', ipcFormat = 'stream', targetBatchRows, maxBatchBytes } = options.arrow ?? {}
+  if (schemaMode !== 'strict' && schemaMode !== 'unify')
+    throw new Error(`[mergeArrow] arrow.schemaMode must be 'strict' or 'unify'`)
+  if (ipcFormat !== 'stream' && ipcFormat !== 'file')
+    throw new Error(`[mergeArrow] arrow.ipcFormat must be 'stream' or 'file'`)
+  for (const [name, value] of Object.entries({ targetBatchRows, maxBatchBytes })) {
+    if (value !== undefined && (!Number.isInteger(value) || value <= 0))
+      throw new Error(`[mergeArrow] arrow.${name} must be a positive integer`)
+  }
+  const rechunk = targetBatchRows !== undefined || maxBatchBytes !== undefined
+
+  const tracker = new ProgressTracker(options, 'mergeArrow', { batches: true })
+  const recovery = new InputRecovery(options, 'mergeArrow', tracker)
+  const rowWindow = new RowWindow(options, 'mergeArrow')
+  const writer: RecordBatchWriter = ipcFormat === 'file'
+    ? new RecordBatchFileWriter()
+    : new RecordBatchStreamWriter({ autoDestroy: true })
+  const encoded = toEncodedStream(writer)
   const outputCounter = createByteCounter((n) => tracker.addBytes(0, n))
-  const pipePromise = pipeline(encoded, outputCounter, output)
+  let schema: Schema | undefined
+  // The written schema: `schema` with only the selected columns, at `projection` in `schema`
+  let outputSchema: Schema | undefined
+  let projection: number[] | undefined
+  let batchesWritten = 0
 
   async function* batches() {
-    for (let i = 0; i < inputs.length; i += 1) {
-      throwIfAborted(signal, 'mergeArrow')
-      if (i > 0) tracker.nextInput()
-
-      const input = inputs[i]!
-      const src = await resolveInputStream(input)
-      const inputCounter = createByteCounter((n) => tracker.addBytes(n, 0))
-      src.pipe(inputCounter)
-
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const reader = await RecordBatchReader.from(inputCounter as any)
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const it = (reader as any)[Symbol.asyncIterator]?.() as AsyncIterator<any> | undefined
-      if (!it)
-        throw new Error('[mergeArrow] Reader is not async-iterable')
+    const opened: ArrowInput[] = []
+    let dictionaries: DictionaryUnifier | undefined
+    let rechunker: BatchRechunker | undefined
+
+    const emit = (batch: RecordBatch) => {
+      publishEvent(hooks, 'batchWritten', { batchIndex: batchesWritten, rows: batch.numRows })
+      batchesWritten += 1
+      return dictionaries!.unify(batch)
+    }
+
+    // Open an input's reader, or its replacements while opening fails (undefined when skipped).
+    const open = async (index: number, stream: Readable) => {
+      let input: ArrowInput | undefined
+      await recovery.merge(index, stream, async (s) => {
+        input = await openArrowInput(index, s, tracker, signal)
+      })
+      return input
+    }
+
+    async function* mergeInput({ index: i, schema: inputSchema, batches: it }: ArrowInput, cursor: InputCursor) {
+      if (inputSchema) {
+        if (!schema) schema = withSharedDictionaries(inputSchema)
+        else if (schemaMode === 'strict') assertSchemaCompatible(schema, inputSchema, i)
+      }
+      if (schema && !outputSchema) {
+        const names = schema.fields.map(({ name }) => name)
+        projection = columns && (schemaMode === 'unify'
+          ? selectColumns(columns, names, 'mergeArrow', 'the unified schema')
+          : selectColumns(columns, names, 'mergeArrow', `the schema of input ${i}`, i))
+        outputSchema = projection ? schema.selectAt(projection) : schema
+      }
+      dictionaries ??= outputSchema && new DictionaryUnifier(outputSchema)
+      if (rechunk) rechunker ??= outputSchema && new BatchRechunker(outputSchema, targetBatchRows, maxBatchBytes)
 
       while (true) {
         throwIfAborted(signal, 'mergeArrow')
+        if (rowWindow.full) break
         const next = await it.next()
 
         if (next.done) break
-        const batch = next.value
+        const { numRows } = next.value
+        // Rows an earlier attempt at this input merged are not merged again.
+        const replayed = Math.min(cursor.replayed, numRows)
+        if (replayed === numRows) {
+          cursor.pass(numRows)
+          continue
+        }
+        const [from, to] = rowWindow.take(numRows - replayed)
+        const [start, end] = [replayed + from, replayed + to]
+        tracker.addRows(end - start, 1)
+        if (end === start) {
+          cursor.pass(numRows)
+          continue
+        }
+        // A batch straddling the window's bounds is sliced.
+        const batch = end - start === numRows ? next.value : next.value.slice(start, end)
+
+        const conformed = projection
+          ? projectBatch(conformBatch(batch, schema!), outputSchema!, projection)
+          : conformBatch(batch, schema!)
+        if (!rechunker) yield emit(conformed)
+        else for (const chunk of rechunker.push(conformed)) yield emit(chunk)
+        cursor.pass(numRows)
+      }
+    }
+
+    try {
+      let sources: AsyncIterable<ArrowInput> | Iterable<ArrowInput> = (async function* () {
+        for await (const { index, stream } of openInputs(options, 'mergeArrow', tracker, recovery)) {
+          const input = await open(index, stream)
+          if (input) yield input
+        }
+      })()
+
+      if (schemaMode === 'unify') {
+        // The output schema is written before the first batch, so every schema is needed up front.
+        for await (const input of sources) opened.push(input)
+        sources = opened
+
+        while (!schema) {
+          try {
+            schema = withSharedDictionaries(unifySchemas(opened.flatMap(({ index, schema }) => (schema ? [{ index, schema }] : []))))
+          } catch (e) {
+            // An input whose schema cannot be unified is replaced or skipped like a failed one.
+            const at = opened.findIndex(({ index }) => e instanceof MergeError && e.inputIndex === index)
+            if (at === -1) throw e
+            const { index, stream } = opened[at]!
+            stream.destroy()
+            const replacement = await recovery.recover(e, index)
+            const input = replacement && await open(index, replacement)
+            if (input) opened[at] = input
+            else opened.splice(at, 1)
+          }
+        }
+      }
+
+      for await (const input of sources) {
+        tracker.startInput(input.index)
 
-        yield batch
+        const cursor = new InputCursor()
+        let current: ArrowInput | undefined = input
+        while (current) {
+          cursor.restart()
+          try {
+            yield* mergeInput(current, cursor)
+            break
+          } catch (e) {
+            const { index, stream } = current
+            stream.destroy()
+            const replacement = await recovery.recover(e, index)
+            current = replacement && await open(index, replacement)
+          }
+        }
+        tracker.endInput(input.index)
+        if (rowWindow.full) break
       }
+
+      for (const chunk of rechunker?.flush() ?? []) yield emit(chunk)
+      // Without any batch (e.g. `limit: 0`), the output still carries the schema.
+      if (batchesWritten === 0 && outputSchema) writer.reset(undefined, outputSchema)
+    } finally {
+      // Inputs opened up front for 'unify' must not leak if the merge stops early.
+      for (const { stream } of opened) stream.destroy()
     }
   }
 
-  const writeAllPromise = (async () => {
+  await withOutput(options, tracker, 'mergeArrow', async (output) => {
+    const pipePromise = pipeline(encoded, outputCounter, output)
+    const writeAllPromise = (async () => {
+      try {
+        await writer.writeAll(batches())
+      } catch (e) {
+        writer.abort(e as Error)
+        throw e
+      }
+    })()
+
     try {
-      await writer.writeAll(batches())
+      await Promise.all([pipePromise, writeAllPromise])
+      tracker.finish()
     } catch (e) {
-      writer.abort(e as Error)
+      try {
+        writer.abort(e as Error)
+      } catch { /* ignore */ }
       throw e
     }
-  })()
+  })
 
-  try {
-    await Promise.all([pipePromise, writeAllPromise])
-    tracker.flush()
-  } catch (e) {
-    try {
-      writer.abort(e as Error)
-    } catch { /* ignore */ }
-    throw e
-  }
+  return tracker.complete({
+    ...tracker.summary(),
+    skipped: recovery.skipped,
+    batches: batchesWritten,
+    ...(outputSchema && { schema: outputSchema }),
+  })
 }
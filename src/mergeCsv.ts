@@ -1,67 +1,217 @@
-import type { MergeOptions } from './types.js'
+import type { CsvDialect } from './csv.js'
+import type { MergeOptions, MergeResult } from './types.js'
+import type { InputCursor } from './util.js'
+import type { Readable } from 'node:stream'
+import { formatCsvRecord, mapColumns, parseCsvRecord, readCsvRecords, resolveCsvDialect, unionColumns } from './csv.js'
+import { SchemaError } from './errors.js'
+import { publishEvent } from './events.js'
 import {
+  assertColumns,
   assertNonEmptyArray,
-  createByteCounter,
+  countInputBytes,
   endWritable,
+  InputRecovery,
+  openInputs,
   ProgressTracker,
-  readUtf8Lines,
-  resolveInputStream,
+  RowWindow,
+  selectColumns,
   throwIfAborted,
+  withOutput,
   writeToWritable,
 } from './util.js'
 
+type CsvInput = {
+  index: number
+  stream: Readable
+  records: AsyncGenerator<string>
+  /** First record (header candidate), undefined for an empty input */
+  head: string | undefined
+}
+
+async function openCsvInput(index: number, stream: Readable, dialect: CsvDialect, tracker: ProgressTracker): Promise<CsvInput> {
+  const counter = countInputBytes(stream, index, tracker)
+
+  const records = readCsvRecords(counter, index, dialect)
+  const head = await records.next()
+  return { index, stream, records, head: head.done ? undefined : head.value }
+}
+
+/**
+ * Build a record mapper from an input's columns to the output columns.
+ * Returns undefined when the columns are identical (records can be written as-is).
+ */
+function columnMapper(from: string[], to: string[], dialect: CsvDialect): ((record: string) => string) | undefined {
+  const indexes = mapColumns(from, to)
+  if (from.length === to.length && indexes.every((index, i) => index === i)) return undefined
+
+  return (record) => {
+    const fields = parseCsvRecord(record, dialect)
+    return formatCsvRecord(indexes.map((index) => (index === -1 ? '' : fields[index] ?? '')), dialect)
+  }
+}
+
 /**
  * Merge multiple CSV streams into a single CSV stream.
  *
  * Behavior:
- * - Reads each input sequentially (preserves input order)
- * - Writes the first line (header) from the first input
- * - Skips the first line (header) for subsequent inputs if it matches the first input's header
- * - Writes all remaining lines, always ending lines with '\n'
+ * - Reads each input sequentially (preserves input order), optionally prefetching upcoming inputs
+ * - Parses RFC 4180 records, so quoted fields may span lines
+ * - Writes the first record (header) from the first input
+ * - Skips the first record (header) for subsequent inputs if it matches the first input's header
+ * - Handles differing headers according to `csv.headerMismatch` (default: written as a data row)
+ * - Writes all remaining records, ending each with `csv.lineTerminator` (default '\n')
+ * - Fails on a quoted field left unterminated at the end of an input
+ * - Strips a leading BOM from every input and optionally writes one BOM to the output
+ * - Writes only the records in `offset` / `limit` (after the header), and stops reading once `limit` records are written
+ * - Writes only the fields of `columns` in every record, selected by the output header's names or positions
+ *
+ * With `headerMismatch: 'union'`, every input is opened up front to read its header,
+ * because the output header must list all columns before the first row is written.
+ *
+ * Failed inputs are handled according to `onInputError`; the header comes from the first
+ * input that is not skipped.
  */
-export async function mergeCsv(options: MergeOptions): Promise<void> {
-  const { inputs, output, signal } = options
+export async function mergeCsv(options: MergeOptions): Promise<MergeResult> {
+  const { inputs, signal, hooks, columns: selectedColumns } = options
   assertNonEmptyArray(inputs, 'mergeCsv')
+  assertColumns(selectedColumns, 'mergeCsv')
+
+  const dialect = resolveCsvDialect(options.csv)
+  const { headerMismatch, lineTerminator: eol } = dialect
+  const tracker = new ProgressTracker(options, 'mergeCsv')
+  const recovery = new InputRecovery(options, 'mergeCsv', tracker)
+  const rowWindow = new RowWindow(options, 'mergeCsv')
+  let header: string | undefined
+  // Positions of the selected columns in the output header
+  let projection: number[] | undefined
+  const project = (fields: string[]) => (projection ? projection.map((index) => fields[index] ?? '') : fields)
+
+  await withOutput(options, tracker, 'mergeCsv', async (output) => {
+    const writeRecord = async (record: string) => {
+      const chunk = `${record}${eol}`
+      await writeToWritable(output, chunk)
+      tracker.addBytes(0, Buffer.byteLength(chunk))
+    }
 
-  const tracker = new ProgressTracker(options)
-  let firstLine: string | undefined
+    // Records are only parsed when columns are selected.
+    const writeRow = (record: string) => writeRecord(projection ? formatCsvRecord(project(parseCsvRecord(record, dialect)), dialect) : record)
 
-  for (let i = 0; i < inputs.length; i += 1) {
-    throwIfAborted(signal, 'mergeCsv')
-    if (i > 0) tracker.nextInput()
+    const selectHeaderColumns = (source: string, inputIndex?: number) => {
+      if (selectedColumns) projection = selectColumns(selectedColumns, parseCsvRecord(header!, dialect), 'mergeCsv', source, inputIndex)
+    }
+
+    if (dialect.emitBom) {
+      const bom = '\uFEFF'
+      await writeToWritable(output, bom)
+      tracker.addBytes(0, Buffer.byteLength(bom))
+    }
 
-    const input = inputs[i]!
-    const src = await resolveInputStream(input)
-    const counter = createByteCounter((n) => tracker.addBytes(n, 0))
-    src.pipe(counter)
+    let columns: string[] | undefined
 
-    const lines = readUtf8Lines(counter)
-    const head = await lines.next()
+    const mergeInput = async ({ index: i, records, head }: CsvInput, cursor: InputCursor) => {
+      if (head === undefined) return
 
-    if (!head.done) {
-      if (i === 0) {
-        firstLine = head.value
-        const chunk = `${head.value}\n`
-        await writeToWritable(output, chunk)
-        tracker.addBytes(0, Buffer.byteLength(chunk))
+      let mapRecord: ((record: string) => string) | undefined
+
+      if (header === undefined) {
+        header = head
+        selectHeaderColumns(`the header of input ${i}`, i)
+        await writeRow(head)
+      } else if (head !== header) {
+        // Skip repeated header only if it matches the first chunk's header record;
+        // otherwise apply the header mismatch policy.
+        if (headerMismatch === 'passthrough') {
+          if (cursor.replayed === 0 && rowWindow.takeRow()) {
+            await writeRow(head)
+            tracker.addRows(1)
+          }
+          cursor.pass()
+          if (rowWindow.full) return
+        } else {
+          columns ??= parseCsvRecord(header, dialect)
+          const fields = parseCsvRecord(head, dialect)
+          const indexes = mapColumns(fields, columns)
+          const sameColumns = fields.length === columns.length && indexes.every((index) => index !== -1)
+
+          if (headerMismatch === 'error' || (headerMismatch === 'reorder' && !sameColumns)) {
+            throw new SchemaError(
+              `[mergeCsv] Header of input ${i} does not match the first input's header: ` +
+              `expected [${columns.join(', ')}], got [${fields.join(', ')}]`,
+              { inputIndex: i },
+            )
+          }
+
+          mapRecord = columnMapper(fields, columns, dialect)
+          publishEvent(hooks, 'headerSkipped', { inputIndex: i })
+        }
       } else {
-        // Skip repeated header only if it matches the first chunk's first line.
-        if (firstLine === undefined || head.value !== firstLine) {
-          const chunk = `${head.value}\n`
-          await writeToWritable(output, chunk)
-          tracker.addBytes(0, Buffer.byteLength(chunk))
+        publishEvent(hooks, 'headerSkipped', { inputIndex: i })
+      }
+
+      for await (const record of records) {
+        throwIfAborted(signal, 'mergeCsv')
+        if (rowWindow.full) break
+        if (cursor.replayed === 0 && rowWindow.takeRow()) {
+          await writeRow(mapRecord ? mapRecord(record) : record)
+          tracker.addRows(1)
         }
+        cursor.pass()
+        if (rowWindow.full) break
       }
     }
 
-    for await (const line of lines) {
-      throwIfAborted(signal, 'mergeCsv')
-      const chunk = `${line}\n`
-      await writeToWritable(output, chunk)
-      tracker.addBytes(0, Buffer.byteLength(chunk))
+    // Inputs are read until the window is full and the header is written.
+    const done = () => rowWindow.full && header !== undefined
+
+    const opened: CsvInput[] = []
+    const sources = openInputs(options, 'mergeCsv', tracker, recovery)
+
+    try {
+      if (headerMismatch !== 'union') {
+        for await (const { index, stream } of sources) {
+          tracker.startInput(index)
+          await recovery.merge(index, stream, async (s, cursor) => mergeInput(await openCsvInput(index, s, dialect, tracker), cursor))
+          tracker.endInput(index)
+          if (done()) break
+        }
+      } else {
+        for await (const { index, stream } of sources) {
+          await recovery.merge(index, stream, async (s) => {
+            opened.push(await openCsvInput(index, s, dialect, tracker))
+          })
+        }
+
+        const heads = opened.flatMap(({ head }) => (head === undefined ? [] : [head]))
+        if (heads.length > 0) {
+          columns = unionColumns(heads.map((head) => parseCsvRecord(head, dialect)))
+          const first = heads[0]!
+          header = columnMapper(parseCsvRecord(first, dialect), columns, dialect) ? formatCsvRecord(columns, dialect) : first
+          selectHeaderColumns('the merged header')
+          await writeRow(header)
+        }
+
+        for (const input of opened) {
+          tracker.startInput(input.index)
+          // A replacement's header is mapped to the union columns like any other.
+          await recovery.merge(input.index, input.stream, async (s, cursor) => {
+            await mergeInput(s === input.stream ? input : await openCsvInput(input.index, s, dialect, tracker), cursor)
+          })
+          tracker.endInput(input.index)
+          if (done()) break
+        }
+      }
+    } finally {
+      // Inputs opened up front for 'union' must not leak if the merge stops early.
+      for (const { stream } of opened) stream.destroy()
     }
-  }
 
-  tracker.flush()
-  await endWritable(output)
+    tracker.finish()
+    await endWritable(output)
+  })
+
+  return tracker.complete({
+    ...tracker.summary(),
+    skipped: recovery.skipped,
+    ...(header !== undefined && { header: project(parseCsvRecord(header, dialect)) }),
+  })
 }
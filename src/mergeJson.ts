@@ -1,144 +1,127 @@
-import type { Readable, Writable } from 'node:stream'
-import type { MergeOptions } from './types.js'
+import type { MergeOptions, MergeResult } from './types.js'
+import type { InputCursor } from './util.js'
+import type { Readable } from 'node:stream'
+import { ELEMENT_END, JSON_CHUNK_SIZE, projectJsonElement, scanJsonArray } from './json.js'
 import {
+  assertColumns,
   assertNonEmptyArray,
+  countInputBytes,
   endWritable,
+  InputRecovery,
+  openInputs,
   ProgressTracker,
-  resolveInputStream,
+  RowWindow,
   throwIfAborted,
+  withOutput,
   writeToWritable,
 } from './util.js'
 
-function isWhitespaceChar(value: string): boolean {
-  return value === ' ' || value === '\n' || value === '\r' || value === '\t'
-}
-
-async function streamJsonArrayContent(
-  src: Readable,
-  output: Writable,
-  state: { outputHasContent: boolean },
-  tracker: ProgressTracker,
-  signal?: AbortSignal,
-): Promise<boolean> {
-  src.setEncoding('utf8')
-
-  let started = false
-  let finished = false
-  let depth = 0
-  let inString = false
-  let escape = false
-  let buffer = ''
-  let inputHasContent = false
-
-  const flush = async () => {
-    if (!buffer) return
-    if (!inputHasContent) {
-      if (state.outputHasContent) {
-        await writeToWritable(output, ',')
-        tracker.addBytes(0, 1)
-      }
-      inputHasContent = true
-      state.outputHasContent = true
+/**
+ * Stream the elements of JSON array inputs to the output, either as one JSON array
+ * or as JSON Lines (one compacted element per line).
+ */
+async function mergeJsonArrays(options: MergeOptions, asLines: boolean): Promise<MergeResult> {
+  const { inputs, signal, onInputError = 'fail', columns } = options
+  assertNonEmptyArray(inputs, 'mergeJson')
+  assertColumns(columns, 'mergeJson')
+
+  const tracker = new ProgressTracker(options, 'mergeJson')
+  const recovery = new InputRecovery(options, 'mergeJson', tracker)
+  const rowWindow = new RowWindow(options, 'mergeJson')
+  // Elements are held until complete when a failed input may be skipped or replaced,
+  // so a partial element never reaches the output, and when their columns are selected.
+  const holdElements = onInputError !== 'fail' || columns !== undefined
+
+  await withOutput(options, tracker, 'mergeJson', async (output) => {
+    let buffer = asLines ? '' : '['
+    let hasElements = false
+
+    const flush = async () => {
+      if (!buffer) return
+      await writeToWritable(output, buffer)
+      tracker.addBytes(0, Buffer.byteLength(buffer))
+      buffer = ''
     }
-    await writeToWritable(output, buffer)
-    tracker.addBytes(0, Buffer.byteLength(buffer))
-    buffer = ''
-  }
-
-  for await (const chunk of src) {
-    throwIfAborted(signal, 'mergeJson')
-
-    const text = String(chunk)
-    tracker.addBytes(Buffer.byteLength(text), 0)
-
-    for (let i = 0; i < text.length; i += 1) {
-      const ch = text[i]!
-
-      if (!started) {
-        if (isWhitespaceChar(ch)) continue
-        if (ch !== '[') throw new Error('[mergeJson] Expected JSON array input')
-        started = true
-        depth = 1
-        continue
-      }
 
-      if (finished) {
-        if (!isWhitespaceChar(ch!)) {
-          throw new Error('[mergeJson] Unexpected data after JSON array end')
+    const mergeInput = async (i: number, stream: Readable, cursor: InputCursor) => {
+      const counter = countInputBytes(stream, i, tracker)
+
+      let inElement = false
+      let inWindow = false
+      let separator = ''
+      let element = ''
+      for await (const piece of scanJsonArray(counter, i, 'mergeJson', { compact: asLines })) {
+        throwIfAborted(signal, 'mergeJson')
+
+        if (piece === ELEMENT_END) {
+          inElement = false
+          if (inWindow) {
+            buffer += separator + (columns ? projectJsonElement(element, columns, i, 'mergeJson') : element)
+            element = ''
+            if (asLines) buffer += '\n'
+            hasElements = true
+            tracker.addRows(1)
+            if (buffer.length >= JSON_CHUNK_SIZE) await flush()
+          }
+          cursor.pass()
+          if (rowWindow.full) break
+          continue
         }
-        continue
-      }
 
-      if (inString) {
-        buffer += ch
-        if (escape) {
-          escape = false
-        } else if (ch === '\\') {
-          escape = true
-        } else if (ch === '"') {
-          inString = false
+        if (!inElement) {
+          if (rowWindow.full) break
+          inElement = true
+          inWindow = cursor.replayed === 0 && rowWindow.takeRow()
+          separator = inWindow && hasElements && !asLines ? ',' : ''
         }
-      } else {
-        if (ch === '"') {
-          inString = true
-          buffer += ch
-        } else if (ch === '[') {
-          depth += 1
-          buffer += ch
-        } else if (ch === ']') {
-          depth -= 1
-          if (depth === 0) {
-            finished = true
-          } else {
-            buffer += ch
-          }
-        } else {
-          buffer += ch
+        if (!inWindow) continue
+        element += piece
+        if (!holdElements) {
+          buffer += separator + element
+          separator = ''
+          element = ''
+          if (buffer.length >= JSON_CHUNK_SIZE) await flush()
         }
       }
+    }
 
-      if (buffer.length >= 64 * 1024) {
-        await flush()
-      }
+    for await (const { index: i, stream } of openInputs(options, 'mergeJson', tracker, recovery)) {
+      tracker.startInput(i)
+      await recovery.merge(i, stream, (s, cursor) => mergeInput(i, s, cursor))
+      tracker.endInput(i)
+      if (rowWindow.full) break
     }
-  }
 
-  if (!started) throw new Error('[mergeJson] Empty input')
-  if (!finished || depth !== 0) throw new Error('[mergeJson] Unterminated JSON array')
-  if (buffer.length > 0) await flush()
+    if (!asLines) buffer += ']'
+    await flush()
+    tracker.finish()
+    await endWritable(output)
+  })
 
-  return inputHasContent
+  return tracker.complete({ ...tracker.summary(), skipped: recovery.skipped })
 }
 
 /**
  * Merge multiple JSON array streams into a single JSON array stream.
  *
  * Behavior:
- * - Reads each input sequentially (preserves input order)
- * - Writes '[' once, then streams array contents from each input
+ * - Reads each input sequentially (preserves input order), optionally prefetching upcoming inputs
+ * - Writes '[' once, then streams array elements from each input
  * - For each input, strips the outer '[' and ']' and concatenates elements
- * - Inserts commas between inputs when needed
+ * - Inserts commas between elements; whitespace between elements is dropped
+ * - Handles failed inputs according to `onInputError`, writing only complete elements
+ * - Writes only the elements in `offset` / `limit`, and stops reading once `limit` elements are written
+ * - With `columns`, writes only the selected positions of array elements or keys of object elements
  */
-export async function mergeJson(options: MergeOptions): Promise<void> {
-  const { inputs, output, signal } = options
-  assertNonEmptyArray(inputs, 'mergeJson')
-
-  const tracker = new ProgressTracker(options)
-  const state = { outputHasContent: false }
-  await writeToWritable(output, '[')
-  tracker.addBytes(0, 1)
-
-  for (let i = 0; i < inputs.length; i += 1) {
-    throwIfAborted(signal, 'mergeJson')
-    if (i > 0) tracker.nextInput()
-
-    const input = inputs[i]!
-    const src = await resolveInputStream(input)
-    await streamJsonArrayContent(src, output, state, tracker, signal)
-  }
+export async function mergeJson(options: MergeOptions): Promise<MergeResult> {
+  return mergeJsonArrays(options, false)
+}
 
-  await writeToWritable(output, ']')
-  tracker.addBytes(0, 1)
-  tracker.flush()
-  await endWritable(output)
+/**
+ * Merge multiple JSON array streams into a single JSON Lines stream.
+ *
+ * Each array element is written on its own line, with whitespace outside strings removed.
+ */
+export async function mergeJsonArraysAsLines(options: MergeOptions): Promise<MergeResult> {
+  return mergeJsonArrays(options, true)
 }
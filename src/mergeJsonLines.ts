@@ -0,0 +1,77 @@
+import type { MergeOptions, MergeResult } from './types.js'
+import type { InputCursor } from './util.js'
+import type { Readable } from 'node:stream'
+import { JSON_CHUNK_SIZE, projectJsonElement, readJsonLines } from './json.js'
+import {
+  assertColumns,
+  assertNonEmptyArray,
+  countInputBytes,
+  endWritable,
+  InputRecovery,
+  openInputs,
+  ProgressTracker,
+  RowWindow,
+  throwIfAborted,
+  withOutput,
+  writeToWritable,
+} from './util.js'
+
+/**
+ * Merge multiple JSON Lines (NDJSON) streams into a single JSON Lines stream.
+ *
+ * Behavior:
+ * - Reads each input sequentially (preserves input order), optionally prefetching upcoming inputs
+ * - Writes every non-blank line terminated by '\n' (CRLF line endings are normalized)
+ * - Adds the missing newline after an input's last line, so inputs never run together
+ * - Lines are copied as-is, not parsed or validated (with `columns`, each line's array positions or object keys are selected)
+ * - Handles failed inputs according to `onInputError`, writing only complete lines
+ * - Writes only the lines in `offset` / `limit`, and stops reading once `limit` lines are written
+ */
+export async function mergeJsonLines(options: MergeOptions): Promise<MergeResult> {
+  const { inputs, signal, columns } = options
+  assertNonEmptyArray(inputs, 'mergeJsonLines')
+  assertColumns(columns, 'mergeJsonLines')
+
+  const tracker = new ProgressTracker(options, 'mergeJsonLines')
+  const recovery = new InputRecovery(options, 'mergeJsonLines', tracker)
+  const rowWindow = new RowWindow(options, 'mergeJsonLines')
+  await withOutput(options, tracker, 'mergeJsonLines', async (output) => {
+    let buffer = ''
+
+    const flush = async () => {
+      if (!buffer) return
+      await writeToWritable(output, buffer)
+      tracker.addBytes(0, Buffer.byteLength(buffer))
+      buffer = ''
+    }
+
+    const mergeInput = async (i: number, stream: Readable, cursor: InputCursor) => {
+      const counter = countInputBytes(stream, i, tracker)
+
+      for await (const line of readJsonLines(counter)) {
+        throwIfAborted(signal, 'mergeJsonLines')
+        if (rowWindow.full) break
+        if (cursor.replayed === 0 && rowWindow.takeRow()) {
+          buffer += `${columns ? projectJsonElement(line, columns, i, 'mergeJsonLines') : line}\n`
+          tracker.addRows(1)
+          if (buffer.length >= JSON_CHUNK_SIZE) await flush()
+        }
+        cursor.pass()
+        if (rowWindow.full) break
+      }
+    }
+
+    for await (const { index: i, stream } of openInputs(options, 'mergeJsonLines', tracker, recovery)) {
+      tracker.startInput(i)
+      await recovery.merge(i, stream, (s, cursor) => mergeInput(i, s, cursor))
+      tracker.endInput(i)
+      if (rowWindow.full) break
+    }
+
+    await flush()
+    tracker.finish()
+    await endWritable(output)
+  })
+
+  return tracker.complete({ ...tracker.summary(), skipped: recovery.skipped })
+}
@@ -1,20 +1,48 @@
-import type { InputSource, MergeFormat, MergeOptions, MergeUrlsOptions } from './types.js'
+import type { InputSource, MergeFormat, MergeOptions, MergeResult, MergeUrlsOptions } from './types.js'
+import { transcodeOptions } from './convert.js'
+import { withRetryEvents } from './events.js'
+import { getFormatMerger, runFormatMerger } from './formats.js'
 import { mergeArrow } from './mergeArrow.js'
 import { mergeCsv } from './mergeCsv.js'
-import { mergeJson } from './mergeJson.js'
-import { isHttpUrl, openUrlAsReadable } from './util.js'
+import { mergeJson, mergeJsonArraysAsLines } from './mergeJson.js'
+import { mergeJsonLines } from './mergeJsonLines.js'
+import { assertSupportedUrls, openSchemeUrl } from './schemes.js'
+import { splitOpenUrlOptions } from './util.js'
 
 /**
  * Unified entry point for merging multiple data streams into a single output stream.
+ *
+ * With `outputFormat` set to a different format, inputs are decoded as `format` and
+ * re-encoded row by row, then merged as `outputFormat`.
+ * Formats added with `registerFormat` are merged by their registered merger.
  */
-export async function mergeStreams(format: MergeFormat, options: MergeOptions): Promise<void> {
+export async function mergeStreams(format: MergeFormat, options: MergeOptions): Promise<MergeResult> {
+  const { outputFormat = format } = options
+
+  const merger = getFormatMerger(format)
+  if (merger || getFormatMerger(outputFormat)) {
+    if (outputFormat !== format)
+      throw new Error(`[mergeStreams] Cannot convert ${format} to ${outputFormat}: outputFormat is not supported for custom formats`)
+    return runFormatMerger(format, merger!, options)
+  }
+
+  // JSON array elements are copied to lines without parsing them.
+  if (format === 'JSON_ARRAY' && outputFormat === 'JSON_LINES')
+    return mergeJsonArraysAsLines(options)
+  if (outputFormat !== format)
+    return mergeStreams(outputFormat, transcodeOptions(options, format, outputFormat))
+
   switch (format) {
     case 'ARROW_STREAM':
       return mergeArrow(options)
     case 'CSV':
       return mergeCsv(options)
+    case 'TSV':
+      return mergeCsv({ ...options, csv: { delimiter: '\t', ...options.csv } })
     case 'JSON_ARRAY':
       return mergeJson(options)
+    case 'JSON_LINES':
+      return mergeJsonLines(options)
     default: {
       const neverFormat: never = format
       throw new Error(`[mergeStreams] Unsupported format: ${String(neverFormat)}`)
@@ -25,16 +53,23 @@ export async function mergeStreams(format: MergeFormat, options: MergeOptions):
 /**
  * Unified entry point for merging multiple data files from URLs into a single output stream.
  *
- * Convenience wrapper around mergeStreams that fetches from http(s) URLs.
+ * Convenience wrapper around mergeStreams that fetches from http(s) URLs, reads `file:`
+ * and `data:` URLs, and opens other schemes with the resolvers added by `registerScheme`.
+ * Unsupported schemes are reported before any input is opened.
+ * Transient failures are retried (and interrupted bodies resumed) when `retry` is set.
+ * URLs given as resolvers are resolved when their input is opened, and resolved again
+ * (up to `maxRefreshes` times) when the server rejects them as expired.
+ * Requests go through `fetch` (default: global fetch) with `requestInit` and `headers` applied.
  */
-export async function mergeStreamsFromUrls(format: MergeFormat, { urls, ...options }: MergeUrlsOptions): Promise<void> {
+export async function mergeStreamsFromUrls(format: MergeFormat, { urls, ...urlsOptions }: MergeUrlsOptions): Promise<MergeResult> {
   if (!Array.isArray(urls) || urls.length === 0)
     throw new Error('[mergeStreamsFromUrls] urls must be a non-empty array')
 
-  for (const url of urls) {
-    if (!isHttpUrl(url)) throw new Error(`[mergeStreamsFromUrls] Expected http(s) URL but got: ${url}`)
-  }
+  assertSupportedUrls(urls, 'mergeStreamsFromUrls')
 
-  const inputs: InputSource[] = urls.map(url => () => openUrlAsReadable(url, options.signal, `[mergeStreams:${format}]`))
+  const [openOptions, options] = splitOpenUrlOptions(urlsOptions)
+  // Bodies are decompressed by the merge, which also reports their compressed size.
+  const inputs: InputSource[] = urls.map((url, i) => () =>
+    openSchemeUrl(url, options.signal, `[mergeStreams:${format}]`, withRetryEvents({ ...openOptions, decompress: false }, options.hooks, i)))
   return mergeStreams(format, { inputs, ...options })
 }
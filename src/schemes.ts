@@ -0,0 +1,89 @@
+import type { OpenUrlOptions, SchemeResolver, UrlResolver } from './types.js'
+import fsp from 'node:fs/promises'
+import { Readable } from 'node:stream'
+import { fileURLToPath } from 'node:url'
+import { MergeError } from './errors.js'
+import { openUrlAsReadable } from './util.js'
+
+/**
+ * Open a `file:` URL. The file is opened before the stream is returned, so a missing file
+ * fails when its input is opened.
+ */
+async function openFileUrl(url: string): Promise<Readable> {
+  const handle = await fsp.open(fileURLToPath(url))
+  return handle.createReadStream()
+}
+
+/**
+ * Open a `data:` URL (RFC 2397), percent-encoded or base64.
+ */
+async function openDataUrl(url: string): Promise<Readable> {
+  const match = /^data:([^,]*),(.*)$/is.exec(url)
+  if (!match) throw new MergeError(`[merge-streams] Invalid data URL: ${url.slice(0, 64)}`)
+
+  const meta = match[1]!
+  const data = match[2]!
+  const bytes = /;base64$/i.test(meta) ? Buffer.from(data, 'base64') : Buffer.from(decodeURIComponent(data))
+  return Readable.from([bytes])
+}
+
+const schemeResolvers = new Map<string, SchemeResolver>([
+  ['file', openFileUrl],
+  ['data', openDataUrl],
+])
+
+function urlScheme(url: string): string | undefined {
+  return /^([a-z][a-z0-9+.-]*):/i.exec(url)?.[1]?.toLowerCase()
+}
+
+/**
+ * Register how URLs of a scheme are opened by `mergeStreamsFromUrls` (e.g. `s3` for `s3://...`).
+ *
+ * Replaces an earlier resolver for the scheme, including the built-in `file`, `data`,
+ * `http` and `https` ones. The built-in http(s) resolver is the only one that applies
+ * the retry, refresh and request options.
+ */
+export function registerScheme(scheme: string, resolver: SchemeResolver): void {
+  const name = scheme.replace(/:$/, '').toLowerCase()
+  if (!/^[a-z][a-z0-9+.-]*$/.test(name))
+    throw new Error(`[registerScheme] Invalid URL scheme: ${scheme}`)
+  if (typeof resolver !== 'function')
+    throw new Error('[registerScheme] resolver must be a function')
+
+  schemeResolvers.set(name, resolver)
+}
+
+function supportedSchemes(): string[] {
+  return [...new Set(['http', 'https', ...schemeResolvers.keys()])].sort()
+}
+
+/**
+ * Check that every URL has a supported scheme before any input is opened.
+ * URL resolvers always resolve to http(s) URLs, so they are not checked here.
+ */
+export function assertSupportedUrls(urls: (string | UrlResolver)[], label: string): void {
+  const unsupported = urls.flatMap((url, index) => {
+    if (typeof url === 'function') return []
+    const scheme = urlScheme(url)
+    return scheme === 'http' || scheme === 'https' || (scheme && schemeResolvers.has(scheme))
+      ? []
+      : [`input ${index} (${scheme ? `'${scheme}:'` : 'no scheme'}): ${url.slice(0, 64)}`]
+  })
+
+  if (unsupported.length > 0)
+    throw new Error(`[${label}] Unsupported URL scheme in ${unsupported.join('; ')}. Supported schemes: ${supportedSchemes().join(', ')}`)
+}
+
+/**
+ * Open a URL with the resolver registered for its scheme; http(s) URLs and URL resolvers
+ * without a registered override go through `openUrlAsReadable`.
+ */
+export async function openSchemeUrl(
+  url: string | UrlResolver,
+  signal: AbortSignal | undefined,
+  label: string,
+  options: OpenUrlOptions,
+): Promise<Readable> {
+  const resolver = typeof url === 'string' ? schemeResolvers.get(urlScheme(url) ?? '') : undefined
+  return resolver ? resolver(url as string, signal) : openUrlAsReadable(url, signal, label, options)
+}
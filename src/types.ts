@@ -1,10 +1,94 @@
+import type { Schema } from 'apache-arrow'
 import type { Readable, Writable } from 'node:stream'
+import type { MergeError } from './errors.js'
 
 /** Input source types */
 export type InputSource = Readable | (() => Readable) | (() => Promise<Readable>)
 
+/** Built-in format types */
+export type BuiltinFormat = 'ARROW_STREAM' | 'CSV' | 'TSV' | 'JSON_ARRAY' | 'JSON_LINES'
+
+/**
+ * Names of formats added with `registerFormat`. Augment this interface to make them valid
+ * `MergeFormat`s, e.g. `declare module '@bitofsky/merge-streams' { interface CustomFormats { XML: true } }`.
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface CustomFormats {}
+
 /** Format types */
-export type MergeFormat = 'ARROW_STREAM' | 'CSV' | 'JSON_ARRAY'
+export type MergeFormat = BuiltinFormat | (keyof CustomFormats & string)
+
+/** Result formats of the Databricks Statement Execution API */
+export type DatabricksFormat = 'ARROW_STREAM' | 'CSV' | 'JSON_ARRAY'
+
+/** Compression formats (zstd requires a Node.js version whose zlib supports it) */
+export type Compression = 'gzip' | 'deflate' | 'brotli' | 'zstd'
+
+/**
+ * How to handle a header of a later input that differs from the first input's header.
+ * - `passthrough`: write it as a data row (default)
+ * - `error`: fail the merge
+ * - `reorder`: map columns to the first input's column order (same column set required)
+ * - `union`: emit the union of all columns, filling missing cells with empty values
+ *
+ * All policies except `passthrough` require every input to start with a header.
+ */
+export type CsvHeaderMismatch = 'passthrough' | 'error' | 'reorder' | 'union'
+
+/** CSV dialect options (also used by TSV) */
+export type CsvOptions = {
+    /** Field delimiter (default: ',' for CSV, '\t' for TSV) */
+    delimiter?: string
+    /** Quote character, or false to disable quote handling (default: '"') */
+    quote?: string | false
+    /** Strip a leading UTF-8 BOM from every input (default: true) */
+    stripBom?: boolean
+    /** Write a UTF-8 BOM once at the start of the output (default: false) */
+    emitBom?: boolean
+    /** Line terminator written after each output record (default: '\n') */
+    lineTerminator?: '\n' | '\r\n'
+    /** Policy for headers that differ from the first input's header (default: 'passthrough') */
+    headerMismatch?: CsvHeaderMismatch
+}
+
+/** Arrow merge options */
+export type ArrowOptions = {
+    /**
+     * How input schemas are reconciled (default: 'strict').
+     * - `strict`: every input must have the first input's fields (names, order and types)
+     * - `unify`: widen compatible types, make nullable as needed and null-fill missing columns;
+     *   opens every input up front to read its schema
+     */
+    schemaMode?: 'strict' | 'unify'
+    /**
+     * Output IPC format (default: 'stream').
+     * - `stream`: Arrow IPC stream format
+     * - `file`: Arrow IPC file format (Feather v2) with footer, for random-access readers
+     */
+    ipcFormat?: 'stream' | 'file'
+    /** Re-chunk output record batches to this many rows (coalescing small and slicing large batches) */
+    targetBatchRows?: number
+    /** Re-chunk output record batches to at most about this many bytes */
+    maxBatchBytes?: number
+}
+
+/**
+ * What to do when an input fails to open or read, or is invalid in its format.
+ * - `fail`: fail the merge (default)
+ * - `skip`: leave the input out and report it in `MergeResult.skipped`
+ * - a function: return a replacement source for the input (called again if the replacement
+ *   fails), or undefined to skip it; throw to fail the merge
+ *
+ * Only complete records, array elements and record batches are written, so the output stays
+ * well-formed. Those merged from an input before it failed stay in the output, and its
+ * replacement resumes after them: as many records as the input had passed (written, or left
+ * out by `offset`) are skipped, so a replacement should hold the same data (e.g. a mirror).
+ * Aborts and output errors always fail.
+ */
+export type InputErrorPolicy =
+    | 'fail'
+    | 'skip'
+    | ((error: MergeError, inputIndex: number) => InputSource | undefined | Promise<InputSource | undefined>)
 
 /** Options types */
 export type MergeOptions = {
@@ -18,6 +102,144 @@ export type MergeOptions = {
     onProgress?: (progress: MergeOptionsProgress) => void
     /** Progress callback interval in milliseconds (default: 1000, 0 = emit on every update) */
     progressIntervalMs?: number
+    /** Number of upcoming inputs to open ahead of the one being merged (default: 0) */
+    prefetch?: number
+    /** CSV/TSV dialect options */
+    csv?: CsvOptions
+    /** Arrow merge options */
+    arrow?: ArrowOptions
+    /**
+     * Output format for mergeStreams / mergeStreamsFromUrls (default: the input format).
+     * When it differs, inputs are decoded and re-encoded in this format while streaming.
+     */
+    outputFormat?: MergeFormat
+    /** Detect compressed inputs by magic bytes (or response headers) and decompress them (default: true) */
+    decompress?: boolean
+    /** Compress the merged output */
+    outputCompression?: Compression
+    /** Policy for inputs that fail (default: 'fail') */
+    onInputError?: InputErrorPolicy
+    /**
+     * Expected size of each input (by input index), for progress percentage and ETA.
+     * URL inputs without an expected byte count use the response's Content-Length.
+     */
+    expectedSizes?: (ExpectedSize | undefined)[]
+    /** Lifecycle event callbacks; events are also published on `node:diagnostics_channel` */
+    hooks?: MergeHooks
+    /**
+     * Fail an input that sends no bytes for this many milliseconds while it is read.
+     * URL inputs of mergeStreamsFromUrls apply it to each request (see `OpenUrlOptions`).
+     */
+    idleTimeoutMs?: number
+    /** Fail the merge once it has run this many milliseconds (checked while opening and reading inputs) */
+    deadlineMs?: number
+    /**
+     * Write at most this many rows (see `InputSummary.rows`), then stop reading: the current
+     * input is closed and the remaining ones are not opened. Not supported by custom formats.
+     */
+    limit?: number
+    /** Rows to leave out before the first row written (default: 0) */
+    offset?: number
+    /**
+     * Write only these columns, in this order, by name or 0-based index: CSV fields (header
+     * included), Arrow columns, or the positions of array rows and keys of object rows in JSON.
+     * Not supported by custom formats.
+     */
+    columns?: (string | number)[]
+}
+
+/** Expected size of an input */
+export type ExpectedSize = {
+    /** Bytes of the input as read (before decompression) */
+    bytes?: number
+    /** Records (CSV, excluding headers), elements, lines or rows (Arrow) of the input */
+    rows?: number
+}
+
+/** An input left out of the merge by `onInputError` */
+export type SkippedInput = {
+    /** Index of the input */
+    inputIndex: number
+    /** Error the input failed with */
+    error: MergeError
+}
+
+/** What was merged from one input */
+export type InputSummary = {
+    /** Index of the input */
+    inputIndex: number
+    /** Bytes read from the input (after decompression; 0 for a skipped input) */
+    inputedBytes: number
+    /**
+     * Records written, excluding headers (CSV/TSV), array elements (JSON_ARRAY),
+     * lines (JSON_LINES) or rows (ARROW_STREAM)
+     */
+    rows: number
+    /** Record batches read (ARROW_STREAM only) */
+    batches?: number
+    /** Time spent merging the input, in milliseconds */
+    elapsedMs: number
+}
+
+/** Summary of a completed merge */
+export type MergeResult = {
+    /** Inputs left out by `onInputError`, in input order */
+    skipped: SkippedInput[]
+    /** What was merged from each input, in input order */
+    inputs: InputSummary[]
+    /** Total bytes read from all inputs */
+    inputedBytes: number
+    /** Total bytes written to the output (before `outputCompression`) */
+    mergedBytes: number
+    /** Bytes read from compressed inputs before decompression (0 when no input is compressed) */
+    compressedInputBytes: number
+    /** Bytes written to the output after `outputCompression` (0 without output compression) */
+    compressedMergedBytes: number
+    /** Total records, elements, lines or rows written (see `InputSummary.rows`) */
+    rows: number
+    /** Record batches written, after re-chunking (ARROW_STREAM only) */
+    batches?: number
+    /** Columns of the header written (CSV/TSV, when any input had a header record) */
+    header?: string[]
+    /** Schema of the output (ARROW_STREAM) */
+    schema?: Schema
+    /** Duration of the merge, in milliseconds */
+    elapsedMs: number
+}
+
+/**
+ * Lifecycle events of a merge, by name. Each is passed to the matching `MergeHooks` callback
+ * (`inputEnd` to `onInputEnd`) and published on the diagnostics channel `merge-streams:<name>`.
+ */
+export type MergeEvents = {
+    /** The merge started (after its options were validated) */
+    mergeStart: { merger: string; totalInputs: number }
+    /** Opening an input (or its `onInputError` replacement) started */
+    inputResolveStart: { inputIndex: number }
+    /** An input was opened, or failed to open with `error` */
+    inputResolveEnd: { inputIndex: number; durationMs: number; error?: unknown }
+    /** The first byte of an input was read, `latencyMs` after it started opening */
+    inputFirstByte: { inputIndex: number; latencyMs: number }
+    /**
+     * An input was merged (or failed while merging and was skipped or replaced), published as
+     * soon as its merge returns, before the next input is opened
+     */
+    inputEnd: InputSummary
+    /** The header record of a CSV/TSV input was not written, as a repeat of (or mapped to) the first header */
+    headerSkipped: { inputIndex: number }
+    /** A record batch was handed to the Arrow writer (ARROW_STREAM) */
+    batchWritten: { batchIndex: number; rows: number }
+    /** A URL input is requested again after a failure (see `RetryOptions`) */
+    retry: RetryEvent & { inputIndex: number }
+    /** The merge completed */
+    mergeComplete: { merger: string; result: MergeResult }
+    /** The merge failed (or was aborted) with `error` */
+    mergeFailed: { merger: string; error: unknown; elapsedMs: number }
+}
+
+/** Callbacks for lifecycle events, called synchronously when the event happens */
+export type MergeHooks = {
+    [K in keyof MergeEvents as `on${Capitalize<K>}`]?: (event: MergeEvents[K]) => void
 }
 
 /** Progress callback parameter types */
@@ -30,9 +252,160 @@ export type MergeOptionsProgress = {
     inputedBytes: number
     /** Total number of bytes written to output so far */
     mergedBytes: number
+    /** Bytes read from compressed inputs before decompression (0 when no input is compressed) */
+    compressedInputBytes: number
+    /** Bytes written to the output after `outputCompression` (0 without output compression) */
+    compressedMergedBytes: number
+    /** Bytes read from the input being processed */
+    inputBytes: number
+    /** Records, elements, lines or rows merged from the input being processed */
+    inputRows: number
+    /** Record batches read from the input being processed (ARROW_STREAM only) */
+    inputBatches?: number
+    /** Expected bytes of the input being processed (`expectedSizes` or Content-Length) */
+    inputExpectedBytes?: number
+    /** Expected rows of the input being processed (`expectedSizes`) */
+    inputExpectedRows?: number
+    /** Total records, elements, lines or rows merged so far */
+    rows: number
+    /** Total record batches read so far (ARROW_STREAM only) */
+    batches?: number
+    /** Time since the merge started, in milliseconds */
+    elapsedMs: number
+    /** Input bytes read per second */
+    bytesPerSecond: number
+    /** Rows merged per second */
+    rowsPerSecond: number
+    /**
+     * Estimated completion, 0-100: by expected rows or bytes when every input has them,
+     * otherwise by finished inputs plus the known fraction of the current one
+     */
+    percent: number
+    /** Estimated time remaining in milliseconds, once progress has been made */
+    etaMs?: number
+}
+
+/** Progress counters of a merge, for custom mergers that read or write past `inputs()` / `output` */
+export type MergeTracker = {
+    /** Count bytes read from inputs (`input`) and written to the output (`merged`) */
+    addBytes(input: number, merged: number): void
+    /** Count records (or elements, rows...) merged from the input being merged */
+    addRows(rows: number): void
+    /** Emit progress now, regardless of `progressIntervalMs` */
+    flush(): void
+}
+
+/** What a custom merger registered with `registerFormat` works with */
+export type FormatMergeContext = {
+    /** Options of the merge (inputs, output, csv, arrow, ... as passed by the caller) */
+    options: MergeOptions
+    /**
+     * Inputs in order, opened (with prefetch and decompression) as iteration reaches them.
+     * Bytes read from the yielded streams are counted as input progress. Inputs failing to
+     * open are replaced or skipped per `onInputError`; read errors are the merger's to handle.
+     */
+    inputs(): AsyncIterable<{ index: number; stream: Readable }>
+    /** Output to write the merged stream to; written bytes are counted as merged progress */
+    output: Writable
+    /** Write to `output`, waiting for it to drain when needed */
+    write(chunk: string | Buffer): Promise<void>
+    /** Abort signal of the merge */
+    signal: AbortSignal | undefined
+    /** Throw if the merge was aborted; call it between records */
+    throwIfAborted(): void
+    /** Progress counters */
+    tracker: MergeTracker
+}
+
+/**
+ * Merges the inputs of a custom format. It resolves when everything is written;
+ * the output is ended afterwards if the merger did not end it.
+ */
+export type FormatMerger = (context: FormatMergeContext) => Promise<void>
+
+/** Retry options for URL inputs */
+export type RetryOptions = {
+    /** Maximum consecutive attempts without progress, including the first request (default: 3) */
+    maxAttempts?: number
+    /** Base delay for exponential backoff in milliseconds (default: 200) */
+    baseDelayMs?: number
+    /** Upper bound of a single backoff delay in milliseconds (default: 10000) */
+    maxDelayMs?: number
+    /** HTTP status codes that are retried (default: 408, 425, 429, 500, 502, 503, 504) */
+    retryableStatuses?: number[]
+    /** Called before each retry, after the backoff delay is chosen */
+    onRetry?: (event: RetryEvent) => void
+}
+
+/** A failed request or body that is retried */
+export type RetryEvent = {
+    /** URL that failed */
+    url: string
+    /** Consecutive attempt about to be made without progress (2 for the first retry) */
+    attempt: number
+    /** Backoff delay before the attempt, in milliseconds */
+    delayMs: number
+    /** Bytes of the body consumed so far (the attempt resumes from there) */
+    byteOffset: number
+    /** Error or failed status that caused the retry */
+    error: unknown
+}
+
+/**
+ * Resolves the URL (or Request) of an input when it is opened. It is called again for a fresh
+ * URL when the previous one is rejected as expired (401, 403, or a 400 mentioning expiry).
+ */
+export type UrlResolver = () => Promise<string | Request>
+
+/** Opens URLs of a registered scheme (see `registerScheme`) */
+export type SchemeResolver = (url: string, signal: AbortSignal | undefined) => Promise<Readable>
+
+/** Request headers as accepted by `fetch` */
+export type RequestHeaders = NonNullable<RequestInit['headers']>
+
+/** Options for opening a single URL as a readable stream */
+export type OpenUrlOptions = {
+    /** Retry transient failures; interrupted bodies are resumed with a Range request (default: no retry) */
+    retry?: RetryOptions
+    /** Maximum number of times a `UrlResolver` is called again for an expired URL (default: 3) */
+    maxRefreshes?: number
+    /** fetch implementation, e.g. one routing through a proxy (default: global fetch) */
+    fetch?: typeof fetch
+    /** Headers added to every request, or a function returning the headers for a URL */
+    headers?: RequestHeaders | ((url: string) => RequestHeaders | Promise<RequestHeaders>)
+    /**
+     * Extra fetch options, e.g. an undici `dispatcher` for keep-alive or proxies.
+     * `signal` and the Range header used to resume bodies take precedence.
+     */
+    requestInit?: RequestInit
+    /**
+     * Decompress compressed bodies, detected by magic bytes or response headers (default: true).
+     * Bodies opened with `false` are still decompressed when merged, unless `MergeOptions.decompress` is false.
+     */
+    decompress?: boolean
+    /** Fail a request that has not received its response headers within this many milliseconds (retried with `retry`) */
+    connectTimeoutMs?: number
+    /** Fail a body that sends no bytes for this many milliseconds while it is read (resumed with `retry`) */
+    idleTimeoutMs?: number
 }
 
 /** URL-based options types */
-export type MergeUrlsOptions = Omit<MergeOptions, 'inputs'> & {
-    urls: string[]
+export type MergeUrlsOptions = Omit<MergeOptions, 'inputs'> & OpenUrlOptions & {
+    /**
+     * URLs with a supported scheme (http, https, file, data or a registered one),
+     * or resolvers for http(s) URLs that expire (e.g. presigned links)
+     */
+    urls: (string | UrlResolver)[]
+}
+
+/** Options for merging a Databricks statement result */
+export type MergeDatabricksResultOptions = Omit<MergeOptions, 'inputs'> & OpenUrlOptions & {
+    /** Workspace host, e.g. 'adb-123.4.azuredatabricks.net' (https:// unless a scheme is given) */
+    host: string
+    /** Access token for the Statement Execution API (not sent to the presigned chunk links) */
+    token: string
+    /** Statement executed with the EXTERNAL_LINKS disposition */
+    statementId: string
+    /** Expected result format (default: the format in the statement's manifest) */
+    format?: DatabricksFormat
 }
@@ -1,7 +1,25 @@
 import type { Writable } from 'node:stream'
-import type { InputSource, MergeOptions, MergeOptionsProgress } from './types.js'
+import type {
+  Compression,
+  InputErrorPolicy,
+  InputSource,
+  InputSummary,
+  MergeHooks,
+  MergeOptions,
+  MergeOptionsProgress,
+  MergeResult,
+  OpenUrlOptions,
+  RetryOptions,
+  SkippedInput,
+  UrlResolver,
+} from './types.js'
 import { once } from 'node:events'
 import { Readable, Transform } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { COMPRESSIONS, compressionFromResponse, compressionHints, createCompressor, decompressStream, readableFrom } from './compression.js'
+import { abortError, FetchError, MergeError, SchemaError, TimeoutError, toFetchError, toInputError } from './errors.js'
+import { publishEvent } from './events.js'
 
 export function assertNonEmptyArray(inputs: unknown[], label: string): void {
   if (!Array.isArray(inputs) || inputs.length === 0)
@@ -9,7 +27,12 @@ export function assertNonEmptyArray(inputs: unknown[], label: string): void {
 }
 
 export function throwIfAborted(signal: AbortSignal | undefined, label: string): void {
-  if (signal?.aborted) throw new Error(`[${label}] Aborted`)
+  if (signal?.aborted) throw abortError(signal, `[${label}]`)
+}
+
+function assertTimeout(value: number | undefined, name: string, label: string): void {
+  if (value !== undefined && !(Number.isFinite(value) && value > 0))
+    throw new Error(`${label} ${name} must be a positive number`)
 }
 
 export function isHttpUrl(value: string): boolean {
@@ -18,7 +41,7 @@ export function isHttpUrl(value: string): boolean {
 
 function toNodeReadable(body: unknown, label = '[merge-streams]'): Readable {
   if (!body)
-    throw new Error(`${label} fetch response body is empty`)
+    throw new FetchError(`${label} fetch response body is empty`)
 
   // If it's already a Node.js stream, return it as-is.
   if (body instanceof Readable || (body && typeof (body as Readable).pipe === 'function' && typeof (body as Readable).on === 'function'))
@@ -33,35 +56,382 @@ function toNodeReadable(body: unknown, label = '[merge-streams]'): Readable {
   return fromWeb(body)
 }
 
+const DEFAULT_RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504]
+
+/** Exponential backoff with full jitter. */
+function backoffDelay(attempt: number, { baseDelayMs = 200, maxDelayMs = 10_000 }: RetryOptions): number {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1))
+}
+
+function fetchFailedError(url: string, res: Response, label: string): FetchError {
+  return new FetchError(`${label} Failed to fetch '${url}': ${res.status} ${res.statusText}`, { url, status: res.status })
+}
+
+/**
+ * Yield the bytes of a response body, re-raising its errors as FetchErrors for `url`
+ * at the offset reached.
+ */
+async function* fetchedBytes(
+  body: AsyncIterable<Buffer | Uint8Array>,
+  url: () => string,
+  signal: AbortSignal | undefined,
+  label: string,
+): AsyncGenerator<Buffer> {
+  let offset = 0
+  try {
+    for await (const chunk of body) {
+      const buf = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)
+      offset += buf.length
+      yield buf
+    }
+  } catch (e) {
+    throw signal?.aborted ? abortError(signal, label) : toFetchError(e, label, url(), offset)
+  }
+}
+
 export async function openUrlAsReadable(
-  url: string,
+  url: string | Request | UrlResolver,
   signal?: AbortSignal,
   label = '[merge-streams]',
+  options: OpenUrlOptions = {},
 ): Promise<Readable> {
-  if (!isHttpUrl(url)) {
-    throw new Error(`${label} Expected http(s) URL but got: ${url}`)
+  const { retry, decompress = true, maxRefreshes = 3, connectTimeoutMs, idleTimeoutMs } = options
+  if (typeof (options.fetch ?? globalThis.fetch) !== 'function') {
+    throw new Error(`${label} fetch is not available`)
   }
 
-  if (typeof fetch !== 'function') {
-    throw new Error(`${label} fetch is not available`)
+  if (!Number.isInteger(maxRefreshes) || maxRefreshes < 0)
+    throw new Error(`${label} maxRefreshes must be a non-negative integer`)
+  assertTimeout(connectTimeoutMs, 'connectTimeoutMs', label)
+  assertTimeout(idleTimeoutMs, 'idleTimeoutMs', label)
+
+  let target: UrlTarget | undefined
+  try {
+    target = await resolveUrlTarget(url, options, label)
+    const timeouts = { connectTimeoutMs, idleTimeoutMs }
+    const body = retry
+      ? await openResumableUrl(target, retry, timeouts, signal, label)
+      : await openUrlBody(target, timeouts, signal, label)
+
+    if (!decompress) return body
+
+    const counted: { onCompressedBytes?: (n: number) => void } = {}
+    const stream = decompressStream(body, { hint: compressionHints.get(body), onCompressedBytes: (n) => counted.onCompressedBytes?.(n) })
+    // The Content-Length is of the body as read, so a merge counts its compressed bytes against it.
+    const length = contentLengths.get(body)
+    if (length !== undefined) contentLengths.set(stream, length)
+    decompressedBodies.set(stream, counted)
+    return stream
+  } catch (e) {
+    if (signal?.aborted) throw abortError(signal, label)
+    throw toFetchError(e, label, target?.url() ?? (typeof url === 'string' ? url : url instanceof Request ? url.url : undefined))
+  }
+}
+
+type UrlTimeouts = { connectTimeoutMs: number | undefined; idleTimeoutMs: number | undefined }
+
+/**
+ * Signal of one request: aborted with the parent signal, or with a TimeoutError when
+ * a timeout started with `arm` elapses first.
+ */
+class RequestTimeout {
+  private readonly controller = new AbortController()
+  private timer: NodeJS.Timeout | undefined
+  private readonly unlink: () => void
+  /** Whether requests need this signal (otherwise `requestInit.signal` applies) */
+  private readonly used: boolean
+
+  constructor(
+    private readonly target: UrlTarget,
+    private readonly timeouts: UrlTimeouts,
+    private readonly label: string,
+    parent: AbortSignal | undefined,
+  ) {
+    const abort = () => this.controller.abort(parent!.reason)
+    if (parent?.aborted) abort()
+    else parent?.addEventListener('abort', abort, { once: true })
+    this.unlink = () => parent?.removeEventListener('abort', abort)
+    this.used = parent !== undefined || timeouts.connectTimeoutMs !== undefined || timeouts.idleTimeoutMs !== undefined
   }
 
-  const res = await fetch(url, { method: 'GET', redirect: 'follow', ...(signal && { signal }) })
-  if (!res.ok) throw new Error(`${label} Failed to fetch '${url}': ${res.status} ${res.statusText}`)
+  get signal(): AbortSignal {
+    return this.controller.signal
+  }
+
+  /** Abort unless the response headers (`connect`) or the next bytes (`idle`) arrive in time. */
+  arm(timeout: 'connect' | 'idle'): void {
+    this.clear()
+    const timeoutMs = timeout === 'connect' ? this.timeouts.connectTimeoutMs : this.timeouts.idleTimeoutMs
+    if (timeoutMs === undefined) return
+    const url = this.target.url()
+    const message = timeout === 'connect'
+      ? `${this.label} Timed out connecting to '${url}' after ${timeoutMs} ms`
+      : `${this.label} No data received from '${url}' for ${timeoutMs} ms`
+    this.timer = setTimeout(() => this.controller.abort(new TimeoutError(message, { url, timeout, timeoutMs })), timeoutMs)
+  }
 
-  const body = toNodeReadable(res.body, label)
+  clear(): void {
+    clearTimeout(this.timer)
+    this.timer = undefined
+  }
 
-  // Ensure we don't eagerly buffer body bytes before the consumer is ready.
-  // (Readable.fromWeb may start flowing once piped; keep it paused by default.)
-  if (typeof body.pause === 'function')
-    body.pause()
+  /** Stop the timer and stop following the parent signal. */
+  dispose(): void {
+    this.clear()
+    this.unlink()
+  }
 
+  /** GET the target with this signal, within the connect timeout. */
+  async fetch(request: RequestInit): Promise<Response> {
+    this.arm('connect')
+    try {
+      return await this.target.fetch({ ...request, ...(this.used && { signal: this.signal }) })
+    } catch (e) {
+      this.dispose()
+      throw e
+    } finally {
+      this.clear()
+    }
+  }
+
+  /** Iterate a response body, aborting it when bytes stop arriving for the idle timeout. */
+  async* body<T>(source: AsyncIterable<T>): AsyncGenerator<T> {
+    this.arm('idle')
+    try {
+      for await (const chunk of source) {
+        this.clear()
+        yield chunk
+        this.arm('idle')
+      }
+    } finally {
+      this.dispose()
+    }
+  }
+}
+
+/** A URL to fetch, refreshed from its resolver when it has expired */
+type UrlTarget = {
+  /** The current URL */
+  url(): string
+  /** GET the current URL, with `request` options and headers taking precedence */
+  fetch(request: RequestInit): Promise<Response>
+}
+
+/**
+ * Whether a response says a (presigned) URL is no longer valid: 401/403, or a 400 whose
+ * body mentions an expired signature or token (e.g. S3 `ExpiredToken`).
+ */
+async function isExpiredUrlResponse(res: Response): Promise<boolean> {
+  if (res.status === 401 || res.status === 403) return true
+  if (res.status !== 400) return false
+  return /expired/i.test(await res.clone().text().catch(() => ''))
+}
+
+async function resolveUrlTarget(
+  source: string | Request | UrlResolver,
+  { maxRefreshes = 3, fetch: fetchImpl = globalThis.fetch, headers: extraHeaders, requestInit }: OpenUrlOptions,
+  label: string,
+): Promise<UrlTarget> {
+  const resolve = typeof source === 'function' ? source : undefined
+  let refreshes = 0
+  let current: string | Request = ''
+
+  const url = () => (typeof current === 'string' ? current : current.url)
+  const update = async () => {
+    current = resolve ? await resolve() : source as string | Request
+    if (!isHttpUrl(url())) throw new FetchError(`${label} Expected http(s) URL but got: ${url()}`, { url: url() })
+  }
+  await update()
+
+  return {
+    url,
+    async fetch(request) {
+      while (true) {
+        // Headers of a resolved Request come first, then `requestInit`, `headers` and `init` headers (e.g. Range).
+        const headers = new Headers(typeof current === 'string' ? undefined : current.headers)
+        const added = typeof extraHeaders === 'function' ? await extraHeaders(url()) : extraHeaders
+        for (const init of [requestInit?.headers, added, request.headers])
+          new Headers(init).forEach((value, name) => headers.set(name, value))
+
+        const res = await fetchImpl(current, { method: 'GET', redirect: 'follow', ...requestInit, ...request, headers })
+        if (!resolve || refreshes >= maxRefreshes || !(await isExpiredUrlResponse(res))) return res
+
+        await res.body?.cancel()
+        refreshes += 1
+        await update()
+      }
+    },
+  }
+}
+
+/** Content-Length of opened URL bodies, for progress percentage */
+const contentLengths = new WeakMap<Readable, number>()
+
+/** Compressed byte counters of URL bodies decompressed by `openUrlAsReadable`, set by `resolveInputStream` */
+const decompressedBodies = new WeakMap<Readable, { onCompressedBytes?: (n: number) => void }>()
+
+/** Body size of a complete response, unless fetch decodes it (then the size is of the encoded body) */
+function contentLength(res: Response): number | undefined {
+  const encoding = res.headers.get('content-encoding')
+  const length = res.headers.get('content-length')
+  if (res.status !== 200 || (encoding && encoding !== 'identity') || length === null || !/^\d+$/.test(length)) return undefined
+  return Number(length)
+}
+
+async function openUrlBody(target: UrlTarget, timeouts: UrlTimeouts, signal: AbortSignal | undefined, label: string): Promise<Readable> {
+  const request = new RequestTimeout(target, timeouts, label, signal)
+  const res = await request.fetch({})
+  if (!res.ok) {
+    request.dispose()
+    throw fetchFailedError(target.url(), res, label)
+  }
+
+  let source: Readable
+  try {
+    source = toNodeReadable(res.body, label)
+  } catch (e) {
+    request.dispose()
+    throw e
+  }
+  // The body is only pulled once the consumer reads, so body bytes are not buffered eagerly.
+  // Destroying it unread still cancels the response and its timeout.
+  const body = readableFrom(fetchedBytes(request.body(source), target.url, signal, label), {
+    destroy: () => {
+      request.dispose()
+      source.destroy()
+    },
+  })
+
+  const hint = compressionFromResponse(target.url(), res.headers)
+  if (hint) compressionHints.set(body, hint)
+  const length = contentLength(res)
+  if (length !== undefined) contentLengths.set(body, length)
   return body
 }
 
+/**
+ * Fetch a URL with retries, resuming interrupted bodies from the last consumed byte.
+ *
+ * Resumption uses `Range: bytes=<offset>-`. A `206` response continues where the previous
+ * body stopped; a `200` response (server ignored the range) is skipped up to the offset.
+ * Bodies with a `Content-Encoding` are only retried before their first byte was consumed,
+ * because decoded offsets do not map to ranges of the encoded representation.
+ */
+async function openResumableUrl(
+  target: UrlTarget,
+  retry: RetryOptions,
+  timeouts: UrlTimeouts,
+  signal: AbortSignal | undefined,
+  label: string,
+): Promise<Readable> {
+  const { maxAttempts = 3, retryableStatuses = DEFAULT_RETRYABLE_STATUSES } = retry
+  let failures = 0
+  let offset = 0
+
+  const backoff = async (error: unknown) => {
+    failures += 1
+    if (signal?.aborted || failures >= maxAttempts) throw error
+    const delayMs = backoffDelay(failures, retry)
+    retry.onRetry?.({ url: target.url(), attempt: failures + 1, delayMs, byteOffset: offset, error })
+    await sleep(delayMs, undefined, signal && { signal })
+  }
+
+  const request = async (): Promise<[Response, RequestTimeout]> => {
+    while (true) {
+      if (signal?.aborted) throw abortError(signal, label)
+
+      const timeout = new RequestTimeout(target, timeouts, label, signal)
+      let res: Response
+      try {
+        res = await timeout.fetch(offset > 0 ? { headers: { range: `bytes=${offset}-` } } : {})
+      } catch (e) {
+        await backoff(e)
+        continue
+      }
+
+      if (res.ok) {
+        if (res.status !== 206 || offset === 0) return [res, timeout]
+        const start = /^bytes (\d+)-/.exec(res.headers.get('content-range') ?? '')?.[1]
+        if (start === undefined || Number(start) === offset) return [res, timeout]
+        timeout.dispose()
+        await res.body?.cancel()
+        throw new FetchError(
+          `${label} Unexpected Content-Range '${res.headers.get('content-range')}' resuming '${target.url()}' at byte ${offset}`,
+          { url: target.url(), byteOffset: offset, status: res.status },
+        )
+      }
+
+      timeout.dispose()
+      await res.body?.cancel()
+      const error = fetchFailedError(target.url(), res, label)
+      if (!retryableStatuses.includes(res.status)) throw error
+      await backoff(error)
+    }
+  }
+
+  let [res, timeout] = await request()
+  let source: Readable
+  try {
+    source = toNodeReadable(res.body, label)
+  } catch (e) {
+    timeout.dispose()
+    throw e
+  }
+  // Whether the stream was destroyed: its body then ends without being resumed.
+  let released = false
+
+  async function* body(): AsyncGenerator<Buffer> {
+    while (true) {
+      const encoding = res.headers.get('content-encoding')
+      const resumable = !encoding || encoding === 'identity'
+      let skip = res.status === 206 ? 0 : offset
+
+      try {
+        for await (const chunk of timeout.body(source)) {
+          let buf = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as Uint8Array)
+          if (skip > 0) {
+            const skipped = Math.min(skip, buf.length)
+            skip -= skipped
+            buf = buf.subarray(skipped)
+            if (buf.length === 0) continue
+          }
+          offset += buf.length
+          failures = 0
+          yield buf
+        }
+      } catch (e) {
+        if (released || (!resumable && offset > 0)) throw e
+        await backoff(e)
+        ;[res, timeout] = await request()
+        source = toNodeReadable(res.body, label)
+        continue
+      }
+
+      if (skip > 0)
+        throw new FetchError(`${label} Response for '${target.url()}' ended before resume offset ${offset}`, { url: target.url(), byteOffset: offset })
+      return
+    }
+  }
+
+  // The generator only runs once the consumer reads, so the body stays paused until then
+  // (same as the non-retrying path), and destroying the stream cancels the current response.
+  const stream = readableFrom(fetchedBytes(body(), target.url, signal, label), {
+    destroy: () => {
+      released = true
+      timeout.dispose()
+      source.destroy()
+    },
+  })
+  const hint = compressionFromResponse(target.url(), res.headers)
+  if (hint) compressionHints.set(stream, hint)
+  const length = contentLength(res)
+  if (length !== undefined) contentLengths.set(stream, length)
+  return stream
+}
+
 export async function writeToWritable(output: Writable, chunk: string | Buffer): Promise<void> {
   const o = output as Writable & { destroyed?: boolean; writableDestroyed?: boolean }
-  if (o.destroyed || o.writableDestroyed) throw new Error('[merge-streams] output is destroyed')
+  if (o.destroyed || o.writableDestroyed) throw new MergeError('[merge-streams] output is destroyed')
   const ok = output.write(chunk)
   if (!ok) await once(output, 'drain')
 }
@@ -80,43 +450,462 @@ export async function endWritable(output: Writable): Promise<void> {
   await done
 }
 
-export async function* readUtf8Lines(src: Readable): AsyncGenerator<string> {
-  src.setEncoding('utf8')
+/** Callbacks counting the bytes of one input, see `trackedInput` */
+type InputCallbacks = {
+  onCompressedBytes?: (n: number) => void
+  onContentLength?: (n: number) => void
+  onInputBytes?: (n: number) => void
+}
+
+/** Openers of sources created by `countingSource` */
+const countingSources = new WeakMap<InputSource, (counters: InputCallbacks) => Promise<Readable>>()
 
-  let carry = ''
-  for await (const chunk of src) {
-    carry += String(chunk)
+/** Streams opened from a `countingSource`, whose bytes `countInputBytes` leaves uncounted */
+const countedStreams = new WeakSet<Readable>()
 
-    while (true) {
-      const lf = carry.indexOf('\n')
-      if (lf === -1) break
+/**
+ * An input source that counts its own bytes: `resolveInputStream` hands the input's counters
+ * to `open` instead of counting the stream it returns, and does not decompress that stream.
+ * Re-encoded inputs count the bytes of their source, not the re-encoded ones.
+ */
+export function countingSource(open: (counters: InputCallbacks) => Promise<Readable>): InputSource {
+  const source = () => open({})
+  countingSources.set(source, open)
+  return source
+}
+
+/**
+ * Normalize input sources to readable streams.
+ * Supports: Readable, sync factory, async factory
+ *
+ * Compressed streams (detected from their first bytes) are decompressed unless
+ * `decompress` is false. `onContentLength` receives the Content-Length of a body
+ * opened by `openUrlAsReadable`, and `onCompressedBytes` the bytes read from it when
+ * `openUrlAsReadable` decompressed it.
+ */
+export async function resolveInputStream(
+  source: InputSource,
+  { decompress = true, ...counters }: { decompress?: boolean | undefined } & InputCallbacks = {},
+): Promise<Readable> {
+  const { onCompressedBytes, onContentLength } = counters
+  const open = typeof source === 'function' ? countingSources.get(source) : undefined
+  if (open) {
+    const stream = await open(counters)
+    countedStreams.add(stream)
+    return stream
+  }
+
+  let stream: Readable
+  if (source instanceof Readable) {
+    stream = source
+  } else if (typeof source === 'function') {
+    const result = source()
+    stream = result instanceof Promise ? await result : result
+  } else {
+    throw new MergeError('[merge-streams] Invalid input source')
+  }
+  const length = contentLengths.get(stream)
+  if (length !== undefined) onContentLength?.(length)
+  const counted = decompressedBodies.get(stream)
+  if (counted && onCompressedBytes) counted.onCompressedBytes = onCompressedBytes
+  return decompress ? decompressStream(stream, { hint: compressionHints.get(stream), onCompressedBytes }) : stream
+}
+
+/** `resolveInputStream` callbacks counting input `index` on `tracker` */
+function trackedInput(tracker: ProgressTracker | undefined, index: number) {
+  return tracker
+    ? {
+        onCompressedBytes: (n: number) => tracker.addCompressedInputBytes(index, n),
+        onContentLength: (n: number) => tracker.setContentLength(index, n),
+        onInputBytes: (n: number) => tracker.addInputBytes(index, n),
+      }
+    : {}
+}
+
+/** Time limits of opening and reading one input of a merge */
+type InputTimeouts = {
+  idleTimeoutMs: number | undefined
+  deadlineMs: number | undefined
+  /** When the merge's deadline passes (ms since epoch) */
+  deadlineAt: number | undefined
+}
+
+/**
+ * Settle like `promise`, or fail with a TimeoutError once the merge's deadline passes or,
+ * when reading, once `idleTimeoutMs` elapses.
+ */
+async function withinTimeouts<T>(
+  promise: Promise<T>,
+  { idleTimeoutMs, deadlineMs, deadlineAt }: InputTimeouts,
+  inputIndex: number,
+  label: string,
+  action: 'open' | 'read',
+): Promise<T> {
+  const idleMs = action === 'read' ? idleTimeoutMs : undefined
+  const remainingMs = deadlineAt === undefined ? undefined : Math.max(deadlineAt - Date.now(), 0)
+  if (idleMs === undefined && remainingMs === undefined) return promise
+
+  const deadline = remainingMs !== undefined && (idleMs === undefined || remainingMs <= idleMs)
+  const error = deadline
+    ? new TimeoutError(`[${label}] Deadline of ${deadlineMs} ms exceeded while ${action === 'open' ? 'opening' : 'reading'} input ${inputIndex}`, {
+        inputIndex,
+        timeout: 'deadline',
+        timeoutMs: deadlineMs!,
+      })
+    : new TimeoutError(`[${label}] No data received from input ${inputIndex} for ${idleMs} ms`, {
+        inputIndex,
+        timeout: 'idle',
+        timeoutMs: idleMs!,
+      })
+
+  let timer: NodeJS.Timeout | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(error), deadline ? remainingMs : idleMs)
+  })
+  try {
+    return await Promise.race([promise, timeout])
+  } finally {
+    clearTimeout(timer)
+  }
+}
 
-      let line = carry.slice(0, lf)
-      if (line.endsWith('\r')) line = line.slice(0, -1)
-      yield line
-      carry = carry.slice(lf + 1)
+/**
+ * Re-raise errors of an input stream with its provenance (see `toInputError`), failing
+ * reads that exceed `timeouts`. Destroying the returned stream destroys `src`.
+ */
+function withInputErrors(
+  src: Readable,
+  inputIndex: number,
+  signal: AbortSignal | undefined,
+  label: string,
+  timeouts: InputTimeouts,
+  onFirstByte?: () => void,
+): Readable {
+  async function* read(): AsyncGenerator<Buffer> {
+    let byteOffset = 0
+    const chunks = src[Symbol.asyncIterator]()
+    try {
+      while (true) {
+        const next = await withinTimeouts(chunks.next(), timeouts, inputIndex, label, 'read')
+        if (next.done) break
+        const chunk = next.value as Buffer | Uint8Array | string
+        const buf = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)
+        if (byteOffset === 0 && buf.length > 0) onFirstByte?.()
+        byteOffset += buf.length
+        yield buf
+      }
+    } catch (e) {
+      throw signal?.aborted ? abortError(signal, `[${label}]`) : toInputError(e, label, { inputIndex, byteOffset, action: 'read' })
     }
   }
 
-  if (carry.length > 0) {
-    if (carry.endsWith('\r')) carry = carry.slice(0, -1)
-    yield carry
+  return readableFrom(read(), src)
+}
+
+/**
+ * Open input `index` from `source` (the input or its replacement), publishing its resolve
+ * and first byte events. Read errors of the opened stream carry its provenance.
+ */
+async function openInput(
+  source: InputSource,
+  index: number,
+  { decompress, signal, hooks, idleTimeoutMs, deadlineMs }: MergeOptions,
+  label: string,
+  tracker: ProgressTracker | undefined,
+): Promise<Readable> {
+  const startedAt = Date.now()
+  const deadlineAt = deadlineMs === undefined ? undefined : (tracker?.startedAt ?? startedAt) + deadlineMs
+  const timeouts = { idleTimeoutMs, deadlineMs, deadlineAt }
+  publishEvent(hooks, 'inputResolveStart', { inputIndex: index })
+
+  let stream: Readable
+  const resolving = resolveInputStream(source, { decompress, ...trackedInput(tracker, index) })
+  try {
+    stream = await withinTimeouts(resolving, timeouts, index, label, 'open')
+  } catch (e) {
+    // An input opened after its deadline is not merged.
+    resolving.then((s) => s.destroy(), () => { /* reported below */ })
+    publishEvent(hooks, 'inputResolveEnd', { inputIndex: index, durationMs: Date.now() - startedAt, error: e })
+    throw e
   }
+  publishEvent(hooks, 'inputResolveEnd', { inputIndex: index, durationMs: Date.now() - startedAt })
+
+  const opened = withInputErrors(stream, index, signal, label, timeouts, () => {
+    publishEvent(hooks, 'inputFirstByte', { inputIndex: index, latencyMs: Date.now() - startedAt })
+  })
+  if (countedStreams.has(stream)) countedStreams.add(opened)
+  return opened
 }
 
 /**
- * Normalize input sources to readable streams.
- * Supports: Readable, sync factory, async factory
+ * Open inputs in order, yielding each resolved stream together with its index.
+ *
+ * With `prefetch > 0`, up to that many upcoming input factories are invoked ahead of the
+ * input currently being consumed, so their connections are established while the current
+ * one streams. Output order always follows input order.
+ *
+ * If iteration stops early (error, abort or `break`), the stream currently handed out and
+ * every prefetched stream are destroyed.
+ *
+ * Errors opening or reading an input carry its index (see `toInputError`). With `recovery`,
+ * an input that fails to open is replaced or skipped according to `onInputError`.
  */
-export async function resolveInputStream(source: InputSource): Promise<Readable> {
-  if (source instanceof Readable) {
-    return source
+export async function* openInputs(
+  options: MergeOptions,
+  label: string,
+  tracker?: ProgressTracker,
+  recovery?: InputRecovery,
+): AsyncGenerator<{ index: number; stream: Readable }> {
+  const { inputs, signal, prefetch = 0, idleTimeoutMs, deadlineMs } = options
+  if (!Number.isInteger(prefetch) || prefetch < 0)
+    throw new Error(`[${label}] prefetch must be a non-negative integer`)
+  assertTimeout(idleTimeoutMs, 'idleTimeoutMs', `[${label}]`)
+  assertTimeout(deadlineMs, 'deadlineMs', `[${label}]`)
+
+  const pending: (Promise<Readable> | undefined)[] = []
+  let opened = 0
+  let current: Readable | undefined
+  let completed = false
+
+  try {
+    for (let i = 0; i < inputs.length; i += 1) {
+      throwIfAborted(signal, label)
+
+      for (; opened <= i + prefetch && opened < inputs.length; opened += 1) {
+        const stream = openInput(inputs[opened]!, opened, options, label, tracker)
+        // Prefetch failures are surfaced when the input is reached, not before.
+        stream.catch(() => { /* handled on await */ })
+        pending[opened] = stream
+      }
+
+      const stream = pending[i]!
+      pending[i] = undefined
+      try {
+        current = await stream
+      } catch (e) {
+        const error = signal?.aborted ? abortError(signal, `[${label}]`) : toInputError(e, label, { inputIndex: i, action: 'open' })
+        if (!recovery) throw error
+        current = await recovery.recover(error, i)
+        if (!current) continue
+      }
+      yield { index: i, stream: current }
+      current = undefined
+    }
+    completed = true
+  } finally {
+    if (!completed) {
+      current?.destroy()
+      for (const stream of pending)
+        stream?.then((s) => s.destroy(), () => { /* ignore */ })
+    }
   }
-  if (typeof source === 'function') {
-    const result = source()
-    return result instanceof Promise ? await result : result
+}
+
+/**
+ * The rows of a merge to write: `offset` rows are left out, then at most `limit` are written.
+ */
+export class RowWindow {
+  private readonly offset: number
+  private readonly limit: number | undefined
+  private skipped = 0
+  private taken = 0
+
+  constructor({ offset = 0, limit }: MergeOptions, label: string) {
+    for (const [name, value] of Object.entries({ offset, limit })) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 0))
+        throw new Error(`[${label}] ${name} must be a non-negative integer`)
+    }
+    this.offset = offset
+    this.limit = limit
+  }
+
+  /** Whether `limit` rows have been written, so no more input needs to be read */
+  get full(): boolean {
+    return this.limit !== undefined && this.taken >= this.limit
+  }
+
+  /** The range `[start, end)` of the next `rows` rows that is written. */
+  take(rows: number): [start: number, end: number] {
+    const start = Math.min(this.offset - this.skipped, rows)
+    this.skipped += start
+    const end = start + Math.min(rows - start, this.limit === undefined ? Infinity : this.limit - this.taken)
+    this.taken += end - start
+    return [start, end]
+  }
+
+  /** Whether the next row is written. */
+  takeRow(): boolean {
+    const [start, end] = this.take(1)
+    return end > start
+  }
+}
+
+/**
+ * Records of one input passed by the attempts to merge it (written, or left out by the row
+ * window), so the replacement of an input that failed mid-stream resumes after them.
+ */
+export class InputCursor {
+  private passed = 0
+  private position = 0
+
+  /** How many of the next records an earlier attempt already passed (they are not merged again) */
+  get replayed(): number {
+    return Math.max(0, this.passed - this.position)
+  }
+
+  /** Pass the next `count` records, once they are merged or left out. */
+  pass(count = 1): void {
+    this.position += count
+    this.passed = Math.max(this.passed, this.position)
+  }
+
+  /** Start another attempt from the input's first record. */
+  restart(): void {
+    this.position = 0
+  }
+}
+
+/**
+ * Validate the `columns` option: column names or 0-based indexes.
+ */
+export function assertColumns(columns: unknown, label: string): void {
+  if (columns === undefined) return
+  if (!Array.isArray(columns) || columns.length === 0 ||
+    !columns.every((column) => typeof column === 'string' || (Number.isInteger(column) && column >= 0)))
+    throw new Error(`[${label}] columns must be a non-empty array of column names or non-negative indexes`)
+}
+
+/**
+ * Find the position of each of `columns` in `names` (the columns of `source`, e.g. an input's
+ * header). A repeated name selects its first occurrence.
+ */
+export function selectColumns(
+  columns: (string | number)[],
+  names: string[],
+  label: string,
+  source: string,
+  inputIndex?: number,
+): number[] {
+  return columns.map((column) => {
+    const index = typeof column === 'number' ? column : names.indexOf(column)
+    if (index === -1 || index >= names.length) {
+      throw new SchemaError(
+        `[${label}] Column ${typeof column === 'number' ? column : `"${column}"`} is not in ${source}: [${names.join(', ')}]`,
+        { inputIndex },
+      )
+    }
+    return index
+  })
+}
+
+/**
+ * Applies `onInputError` to failed inputs and keeps the list of skipped ones.
+ */
+export class InputRecovery {
+  readonly skipped: SkippedInput[] = []
+  private readonly policy: InputErrorPolicy
+
+  constructor(
+    private readonly options: MergeOptions,
+    private readonly label: string,
+    private readonly tracker?: ProgressTracker,
+  ) {
+    const { onInputError = 'fail' } = options
+    if (onInputError !== 'fail' && onInputError !== 'skip' && typeof onInputError !== 'function')
+      throw new Error(`[${label}] onInputError must be 'fail', 'skip' or a function`)
+    this.policy = onInputError
+  }
+
+  /**
+   * Recover from an error of input `index`: resolves to the opened replacement, or undefined
+   * when the input is skipped. Rethrows errors the policy does not cover.
+   */
+  async recover(error: unknown, index: number): Promise<Readable | undefined> {
+    const { signal } = this.options
+    if (this.policy === 'fail' || signal?.aborted || !(error instanceof MergeError) || error.inputIndex !== index)
+      throw error
+    // Past the deadline, every remaining input would fail too.
+    if (error instanceof TimeoutError && error.timeout === 'deadline') throw error
+
+    const replacement = this.policy === 'skip' ? undefined : await this.policy(error, index)
+    if (replacement === undefined) {
+      this.skipped.push({ inputIndex: index, error })
+      return undefined
+    }
+
+    const { options, tracker, label } = this
+    try {
+      return await openInput(replacement, index, options, label, tracker)
+    } catch (e) {
+      return this.recover(signal?.aborted ? abortError(signal, `[${label}]`) : toInputError(e, label, { inputIndex: index, action: 'open' }), index)
+    }
+  }
+
+  /**
+   * Merge an input with `merge`, merging its replacement instead whenever it fails.
+   * `merge` must only write complete records, and pass each one on `cursor` so that the
+   * replacement skips the records merged before the failure.
+   */
+  async merge(index: number, stream: Readable, merge: (stream: Readable, cursor: InputCursor) => Promise<void>): Promise<void> {
+    const cursor = new InputCursor()
+    let current: Readable | undefined = stream
+    while (current) {
+      cursor.restart()
+      try {
+        return await merge(current, cursor)
+      } catch (e) {
+        current.destroy()
+        current = await this.recover(e, index)
+      }
+    }
   }
-  throw new Error('[merge-streams] Invalid input source')
+}
+
+/**
+ * Split the options for `openUrlAsReadable` off URL-based merge options.
+ * `decompress` stays with the merge options, which decompress the opened bodies;
+ * `idleTimeoutMs` moves to the open options, which apply it to each request.
+ */
+export function splitOpenUrlOptions<T extends OpenUrlOptions>({
+  retry,
+  maxRefreshes,
+  fetch,
+  headers,
+  requestInit,
+  connectTimeoutMs,
+  idleTimeoutMs,
+  ...options
+}: T): [OpenUrlOptions, Omit<T, Exclude<keyof OpenUrlOptions, 'decompress'>>] {
+  return [{
+    ...(retry && { retry }),
+    ...(maxRefreshes !== undefined && { maxRefreshes }),
+    ...(fetch && { fetch }),
+    ...(headers && { headers }),
+    ...(requestInit && { requestInit }),
+    ...(connectTimeoutMs !== undefined && { connectTimeoutMs }),
+    ...(idleTimeoutMs !== undefined && { idleTimeoutMs }),
+  }, options]
+}
+
+/**
+ * Count the bytes read from input `index` on `tracker`; read the returned stream instead of `stream`.
+ * Streams of a `countingSource` are already counted and returned as they are.
+ */
+export function countInputBytes(stream: Readable, index: number, tracker: ProgressTracker): Readable {
+  if (countedStreams.has(stream)) return stream
+  return countBytes(stream, (n) => tracker.addInputBytes(index, n))
+}
+
+/**
+ * Pass the bytes read from `stream` to `onBytes`; read the returned stream instead of `stream`.
+ *
+ * Not `stream.pipe()`: errors of `stream` must reach the reader through the returned stream,
+ * so the pipeline's own rejection is left for the reader to surface.
+ */
+export function countBytes(stream: Readable, onBytes: (n: number) => void): Readable {
+  const counter = createByteCounter(onBytes)
+  pipeline(stream, counter).catch(() => { /* surfaced by the reader */ })
+  return counter
 }
 
 /**
@@ -131,36 +920,163 @@ export function createByteCounter(onBytes: (n: number) => void): Transform {
   })
 }
 
+/**
+ * Run a merge writing to `options.output`, or to a compressor piped into it when
+ * `outputCompression` is set. `run` must end the writable it is given.
+ *
+ * If `run` fails, the compressor and the output are destroyed. The merge's start and
+ * failure are published as lifecycle events.
+ */
+export async function withOutput(
+  { output, outputCompression }: MergeOptions,
+  tracker: ProgressTracker,
+  label: string,
+  run: (output: Writable) => Promise<void>,
+): Promise<void> {
+  if (outputCompression !== undefined && !COMPRESSIONS.includes(outputCompression))
+    throw new Error(`[${label}] outputCompression must be one of: ${COMPRESSIONS.join(', ')}`)
+
+  tracker.start()
+  try {
+    await (outputCompression === undefined ? run(output) : runCompressed(outputCompression, output, tracker, run))
+  } catch (e) {
+    tracker.fail(e)
+    throw e
+  }
+}
+
+async function runCompressed(
+  outputCompression: Compression,
+  output: Writable,
+  tracker: ProgressTracker,
+  run: (output: Writable) => Promise<void>,
+): Promise<void> {
+  const compressor = createCompressor(outputCompression)
+  const counter = createByteCounter((n) => tracker.addCompressedBytes(0, n))
+  const piped = pipeline(compressor, counter, output)
+
+  try {
+    await run(compressor)
+  } catch (e) {
+    compressor.destroy(e as Error)
+    await piped.catch(() => { /* reported as the merge error */ })
+    throw e
+  }
+
+  await piped
+  // Compressed bytes are only complete once the compressor has flushed.
+  tracker.flush()
+}
+
+/** Counters of one input, as kept by ProgressTracker */
+type InputCounters = {
+  inputedBytes: number
+  /** Bytes read before decompression (0 unless the input is compressed) */
+  compressedBytes: number
+  rows: number
+  batches: number
+  elapsedMs: number
+  expectedBytes: number | undefined
+  expectedRows: number | undefined
+}
+
 /**
  * Progress tracker with configurable throttling interval.
+ *
+ * Also keeps the per-input counters and totals reported in a merge's `MergeResult`.
  */
 export class ProgressTracker {
   private inputIndex = 0
   private inputedBytes = 0
   private mergedBytes = 0
+  private compressedInputBytes = 0
+  private compressedMergedBytes = 0
+  private rows = 0
   private lastEmit = 0
+  private finished = false
+  readonly startedAt = Date.now()
+  /** Start of the current input, undefined until the first input starts and once it ends */
+  private inputStartedAt: number | undefined
+  /** Whether the current input has been merged */
+  private inputEnded = false
+  private readonly inputs: InputCounters[]
   private readonly totalInputs: number
   private readonly onProgress: ((p: MergeOptionsProgress) => void) | undefined
   private readonly intervalMs: number
+  private readonly hooks: MergeHooks | undefined
+  /** Whether the format has record batches to report */
+  private readonly batches: boolean
 
-  constructor({ inputs, onProgress, progressIntervalMs = 1000 }: MergeOptions) {
+  constructor(
+    { inputs, onProgress, progressIntervalMs = 1000, expectedSizes = [], hooks }: MergeOptions,
+    private readonly label: string,
+    { batches = false } = {},
+  ) {
     this.totalInputs = inputs.length
+    this.inputs = inputs.map((_, i) => ({
+      inputedBytes: 0,
+      compressedBytes: 0,
+      rows: 0,
+      batches: 0,
+      elapsedMs: 0,
+      expectedBytes: expectedSizes[i]?.bytes,
+      expectedRows: expectedSizes[i]?.rows,
+    }))
     this.onProgress = onProgress
     this.intervalMs = progressIntervalMs
+    this.hooks = hooks
+    this.batches = batches
   }
 
+  /** Count bytes read from the current input (`input`) and written to the output (`merged`). */
   addBytes(input: number, merged: number): void {
-    if (!this.onProgress)
-      return
-    this.inputedBytes += input
+    this.countInputBytes(this.inputIndex, input)
     this.mergedBytes += merged
     this.maybeEmit()
   }
 
-  nextInput(): void {
-    if (!this.onProgress)
-      return
-    this.inputIndex++
+  /** Count bytes read from input `index`, which may be read before it is merged. */
+  addInputBytes(index: number, n: number): void {
+    this.countInputBytes(index, n)
+    this.maybeEmit()
+  }
+
+  /** Count bytes before decompression (input) and after output compression (merged). */
+  addCompressedBytes(input: number, merged: number): void {
+    this.compressedInputBytes += input
+    this.compressedMergedBytes += merged
+    this.maybeEmit()
+  }
+
+  /** Count bytes of compressed input `index` before decompression. */
+  addCompressedInputBytes(index: number, n: number): void {
+    const counters = this.inputs[index]
+    if (counters) counters.compressedBytes += n
+    this.addCompressedBytes(n, 0)
+  }
+
+  /** Use the Content-Length of input `index` as its expected size, unless one was given. */
+  setContentLength(index: number, bytes: number): void {
+    const counters = this.inputs[index]
+    if (counters) counters.expectedBytes ??= bytes
+  }
+
+  /** Count records, elements or rows (and record batches) merged from the current input. */
+  addRows(rows: number, batches = 0): void {
+    const counters = this.inputs[this.inputIndex]
+    if (!counters) return
+    counters.rows += rows
+    counters.batches += batches
+    this.rows += rows
+  }
+
+  /** Start merging input `index`; its elapsed time runs until `endInput`. */
+  startInput(index: number): void {
+    this.endInput(this.inputIndex)
+    this.inputStartedAt = Date.now()
+    this.inputEnded = false
+    if (index === this.inputIndex) return
+    this.inputIndex = index
     this.maybeEmit()
   }
 
@@ -168,6 +1084,108 @@ export class ProgressTracker {
     this.emit()
   }
 
+  /** End input `index` once its merge returns, publishing its summary. */
+  endInput(index: number): void {
+    if (index !== this.inputIndex || this.inputStartedAt === undefined) return
+    const counters = this.inputs[index]
+    const elapsedMs = Date.now() - this.inputStartedAt
+    this.inputStartedAt = undefined
+    this.inputEnded = true
+    if (!counters) return
+    counters.elapsedMs += elapsedMs
+    publishEvent(this.hooks, 'inputEnd', this.inputSummary(index))
+    this.maybeEmit()
+  }
+
+  /** Mark every input as merged (100%) and emit progress. */
+  finish(): void {
+    this.endInput(this.inputIndex)
+    this.finished = true
+    this.emit()
+  }
+
+  /** Totals and per-input counters of the merge. */
+  summary(): Omit<MergeResult, 'skipped'> {
+    this.endInput(this.inputIndex)
+    return {
+      inputs: this.inputs.map((_, inputIndex) => this.inputSummary(inputIndex)),
+      inputedBytes: this.inputedBytes,
+      mergedBytes: this.mergedBytes,
+      compressedInputBytes: this.compressedInputBytes,
+      compressedMergedBytes: this.compressedMergedBytes,
+      rows: this.rows,
+      elapsedMs: Date.now() - this.startedAt,
+    }
+  }
+
+  /** Publish the start of the merge. */
+  start(): void {
+    publishEvent(this.hooks, 'mergeStart', { merger: this.label, totalInputs: this.totalInputs })
+  }
+
+  /** Publish the failure of the merge. */
+  fail(error: unknown): void {
+    publishEvent(this.hooks, 'mergeFailed', { merger: this.label, error, elapsedMs: Date.now() - this.startedAt })
+  }
+
+  /** Publish the completion of the merge, returning its `result`. */
+  complete(result: MergeResult): MergeResult {
+    publishEvent(this.hooks, 'mergeComplete', { merger: this.label, result })
+    return result
+  }
+
+  private inputSummary(inputIndex: number): InputSummary {
+    const { inputedBytes, rows, batches, elapsedMs } = this.inputs[inputIndex]!
+    return { inputIndex, inputedBytes, rows, ...(this.batches && { batches }), elapsedMs }
+  }
+
+  private countInputBytes(index: number, n: number): void {
+    this.inputedBytes += n
+    const counters = this.inputs[index]
+    if (counters) counters.inputedBytes += n
+  }
+
+  /**
+   * Completion from 0 to 1. Weighted by expected rows, or else expected bytes, when every
+   * input has them; otherwise each input weighs the same and the current one counts with
+   * the fraction of its expected rows or bytes read so far.
+   */
+  private completion(): number {
+    if (this.finished) return 1
+
+    const done = (i: number) => i < this.inputIndex || (i === this.inputIndex && this.inputEnded)
+    const read = ({ inputedBytes, compressedBytes }: InputCounters) => (compressedBytes > 0 ? compressedBytes : inputedBytes)
+    const fraction = (value: number, expected: number) => (expected > 0 ? Math.min(value / expected, 1) : 1)
+
+    const weighted = (expected: (c: InputCounters) => number | undefined, value: (c: InputCounters) => number) => {
+      let total = 0
+      let reached = 0
+      for (const [i, counters] of this.inputs.entries()) {
+        const size = expected(counters)!
+        total += size
+        reached += done(i) ? size : Math.min(value(counters), size)
+      }
+      return total > 0 ? reached / total : undefined
+    }
+
+    if (this.inputs.every(({ expectedRows }) => expectedRows !== undefined)) {
+      const byRows = weighted(({ expectedRows }) => expectedRows, ({ rows }) => rows)
+      if (byRows !== undefined) return byRows
+    }
+    if (this.inputs.every(({ expectedBytes }) => expectedBytes !== undefined)) {
+      const byBytes = weighted(({ expectedBytes }) => expectedBytes, read)
+      if (byBytes !== undefined) return byBytes
+    }
+
+    const current = this.inputs[this.inputIndex]
+    let partial = this.inputEnded ? 1 : 0
+    if (current && this.inputStartedAt !== undefined) {
+      if (current.expectedRows !== undefined) partial = fraction(current.rows, current.expectedRows)
+      else if (current.expectedBytes !== undefined) partial = fraction(read(current), current.expectedBytes)
+    }
+    return this.totalInputs > 0 ? Math.min((this.inputIndex + partial) / this.totalInputs, 1) : 1
+  }
+
   private maybeEmit(): void {
     if (!this.onProgress)
       return
@@ -180,12 +1198,33 @@ export class ProgressTracker {
   private emit(): void {
     if (!this.onProgress)
       return
-    this.lastEmit = Date.now()
+    const now = Date.now()
+    this.lastEmit = now
+
+    const elapsedMs = now - this.startedAt
+    const seconds = elapsedMs / 1000
+    const completion = this.completion()
+    const current = this.inputs[this.inputIndex]
+
     this.onProgress({
       inputIndex: this.inputIndex,
       totalInputs: this.totalInputs,
       inputedBytes: this.inputedBytes,
-      mergedBytes: this.mergedBytes
+      mergedBytes: this.mergedBytes,
+      compressedInputBytes: this.compressedInputBytes,
+      compressedMergedBytes: this.compressedMergedBytes,
+      inputBytes: current?.inputedBytes ?? 0,
+      inputRows: current?.rows ?? 0,
+      ...(this.batches && { inputBatches: current?.batches ?? 0 }),
+      ...(current?.expectedBytes !== undefined && { inputExpectedBytes: current.expectedBytes }),
+      ...(current?.expectedRows !== undefined && { inputExpectedRows: current.expectedRows }),
+      rows: this.rows,
+      ...(this.batches && { batches: this.inputs.reduce((sum, { batches }) => sum + batches, 0) }),
+      elapsedMs,
+      bytesPerSecond: seconds > 0 ? this.inputedBytes / seconds : 0,
+      rowsPerSecond: seconds > 0 ? this.rows / seconds : 0,
+      percent: completion * 100,
+      ...(completion > 0 && { etaMs: completion >= 1 ? 0 : (elapsedMs * (1 - completion)) / completion }),
     })
   }
 }
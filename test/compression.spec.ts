@@ -0,0 +1,140 @@
+import { PassThrough, Readable } from 'node:stream'
+import zlib from 'node:zlib'
+import { Int32, Table, tableFromIPC, tableToIPC, vectorFromArray } from 'apache-arrow'
+import { describe, it, expect } from 'vitest'
+import { mergeStreams, mergeStreamsFromUrls } from '../src/mergeStreams.js'
+import { openUrlAsReadable } from '../src/util.js'
+import type { MergeOptionsProgress } from '../src/types.js'
+import type { RouteHandler } from './testUtil.js'
+import { collectToBuffer, collectToString, createLocalHttpServer, sendBody } from './testUtil.js'
+
+const hasZstd = typeof (zlib as { zstdCompressSync?: unknown }).zstdCompressSync === 'function'
+
+describe('input decompression', () => {
+  it('detects gzip and deflate inputs by magic bytes and reports compressed bytes', async () => {
+    const gzipped = zlib.gzipSync('a,b\n1,2\n')
+    const deflated = zlib.deflateSync('a,b\n3,4\n')
+    const progress: MergeOptionsProgress[] = []
+
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    await mergeStreams('CSV', {
+      inputs: [Readable.from([gzipped]), Readable.from(['a,b\n5,6\n']), () => Readable.from([deflated])],
+      output: pass,
+      onProgress: (p) => progress.push(p),
+      progressIntervalMs: 0,
+    })
+
+    expect(await outPromise).toBe('a,b\n1,2\n5,6\n3,4\n')
+    const last = progress[progress.length - 1]!
+    expect(last.inputedBytes).toBe(24)
+    expect(last.compressedInputBytes).toBe(gzipped.length + deflated.length)
+  })
+
+  it('decompresses url bodies detected by content type or bytes, without decoding twice', async () => {
+    const routes = new Map<string, string | Buffer | RouteHandler>([
+      ['/c0.jsonl.br', (req, res) => sendBody(req, res, zlib.brotliCompressSync('{"a":1}\n'), 'application/octet-stream')],
+      ['/c1', (req, res) => sendBody(req, res, zlib.brotliCompressSync('{"a":2}\n'), 'application/x-brotli')],
+      ['/c2.gz', zlib.gzipSync('{"a":3}\n')],
+      ['/c3', (_req, res) => {
+        // Decoded by fetch itself.
+        res.writeHead(200, { 'content-encoding': 'gzip' })
+        res.end(zlib.gzipSync('{"a":4}\n'))
+      }],
+    ])
+
+    const { baseUrl, close } = await createLocalHttpServer(routes)
+
+    try {
+      const pass = new PassThrough()
+      const outPromise = collectToString(pass)
+
+      await mergeStreamsFromUrls('JSON_LINES', { urls: [...routes.keys()].map((p) => `${baseUrl}${p}`), output: pass })
+
+      expect(await outPromise).toBe('{"a":1}\n{"a":2}\n{"a":3}\n{"a":4}\n')
+    } finally {
+      await close()
+    }
+  })
+
+  it('returns raw url bodies from openUrlAsReadable with decompress: false', async () => {
+    const gzipped = zlib.gzipSync('a,b\n1,2\n')
+    const { baseUrl, close } = await createLocalHttpServer(new Map([['/c0.csv.gz', gzipped]]))
+
+    try {
+      const decoded = await openUrlAsReadable(`${baseUrl}/c0.csv.gz`)
+      expect(await collectToString(decoded)).toBe('a,b\n1,2\n')
+
+      const raw = await openUrlAsReadable(`${baseUrl}/c0.csv.gz`, undefined, undefined, { decompress: false })
+      expect(await collectToBuffer(raw)).toEqual(gzipped)
+    } finally {
+      await close()
+    }
+  })
+
+  it.runIf(hasZstd)('detects zstd inputs', async () => {
+    const compress = (zlib as unknown as { zstdCompressSync: (b: string) => Buffer }).zstdCompressSync
+
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+    await mergeStreams('JSON_LINES', { inputs: [Readable.from([compress('{"a":1}\n')])], output: pass })
+
+    expect(await outPromise).toBe('{"a":1}\n')
+  })
+
+  it.skipIf(hasZstd)('fails on zstd inputs when zlib lacks zstd support', async () => {
+    const zstdFrame = Buffer.from([0x28, 0xb5, 0x2f, 0xfd, 0x00, 0x00])
+
+    await expect(
+      mergeStreams('JSON_LINES', { inputs: [Readable.from([zstdFrame])], output: new PassThrough() }),
+    ).rejects.toThrow(/zstd is not supported by this Node.js version/)
+  })
+})
+
+describe('outputCompression', () => {
+  it('compresses the merged output and reports both byte counts', async () => {
+    const progress: MergeOptionsProgress[] = []
+
+    const pass = new PassThrough()
+    const outPromise = collectToBuffer(pass)
+
+    await mergeStreams('JSON_ARRAY', {
+      inputs: [Readable.from(['[1,2]']), Readable.from(['[3]'])],
+      output: pass,
+      outputCompression: 'gzip',
+      onProgress: (p) => progress.push(p),
+      progressIntervalMs: 0,
+    })
+
+    const out = await outPromise
+    expect(zlib.gunzipSync(out).toString()).toBe('[1,2,3]')
+
+    const last = progress[progress.length - 1]!
+    expect(last.mergedBytes).toBe(7)
+    expect(last.compressedMergedBytes).toBe(out.length)
+  })
+
+  it('compresses Arrow output from compressed Arrow inputs', async () => {
+    const table = new Table({ a: vectorFromArray([1, 2], new Int32()) })
+    const gzipped = zlib.gzipSync(tableToIPC(table, 'stream'))
+
+    const pass = new PassThrough()
+    const outPromise = collectToBuffer(pass)
+
+    await mergeStreams('ARROW_STREAM', {
+      inputs: [Readable.from([gzipped]), Readable.from([gzipped])],
+      output: pass,
+      outputCompression: 'brotli',
+    })
+
+    const merged = tableFromIPC(zlib.brotliDecompressSync(await outPromise))
+    expect(merged.getChild('a')!.toArray()).toEqual(new Int32Array([1, 2, 1, 2]))
+  })
+
+  it('rejects an unknown outputCompression', async () => {
+    await expect(
+      mergeStreams('CSV', { inputs: [Readable.from(['a\n'])], output: new PassThrough(), outputCompression: 'lz4' as 'gzip' }),
+    ).rejects.toThrow(/outputCompression must be one of: gzip, deflate, brotli, zstd/)
+  })
+})
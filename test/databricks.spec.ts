@@ -2,35 +2,29 @@ import { createWriteStream } from 'node:fs'
 import fsp from 'node:fs/promises'
 import os from 'node:os'
 import path from 'node:path'
+import { PassThrough } from 'node:stream'
+import { Int32, Table, tableFromIPC, tableToIPC, vectorFromArray } from 'apache-arrow'
 import { describe, it, expect, beforeAll } from 'vitest'
-import { mergeStreamsFromUrls, MergeFormat } from '../src/index.js'
+import { mergeDatabricksResult, DatabricksFormat } from '../src/index.js'
+import type { MergeOptionsProgress } from '../src/index.js'
+import type { RouteHandler } from './testUtil.js'
+import { collectToBuffer, collectToString, createLocalHttpServer } from './testUtil.js'
 
 const DATABRICKS_TOKEN = process.env.DATABRICKS_TOKEN
 const DATABRICKS_HOST = process.env.DATABRICKS_HOST
 const DATABRICKS_HTTP_PATH = process.env.DATABRICKS_HTTP_PATH
 
-interface ExternalLink {
-  chunk_index: number
-  external_link: string
-  row_count: number
-  byte_count: number
-  next_chunk_index?: number
-}
-
 interface DatabricksResult {
   statement_id: string
   status: { state: string }
   manifest: {
-    format: MergeFormat
+    format: DatabricksFormat
     total_chunk_count: number
     total_row_count: number
   }
-  result: {
-    external_links: ExternalLink[]
-  }
 }
 
-async function executeQuery(statement: string, format: MergeFormat): Promise<DatabricksResult> {
+async function executeQuery(statement: string, format: DatabricksFormat): Promise<DatabricksResult> {
   const warehouseId = DATABRICKS_HTTP_PATH!.split('/').pop()!
 
   const response = await fetch(`https://${DATABRICKS_HOST}/api/2.0/sql/statements`, {
@@ -51,25 +45,276 @@ async function executeQuery(statement: string, format: MergeFormat): Promise<Dat
   return response.json()
 }
 
-async function getAllExternalLinks(result: DatabricksResult): Promise<string[]> {
-  const links: string[] = [result.result.external_links[0].external_link]
-
-  for (let i = 1; i < result.manifest.total_chunk_count; i++) {
-    const response = await fetch(
-      `https://${DATABRICKS_HOST}/api/2.0/sql/statements/${result.statement_id}/result/chunks/${i}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${DATABRICKS_TOKEN}`,
-        },
-      }
-    )
-    const chunk = await response.json()
-    links.push(chunk.external_links[0].external_link)
+/**
+ * Serve a fake Statement Execution API for statement 'st-1' whose chunks are served
+ * from `/files/<index>`. Requests are logged in order, with a '+auth' suffix when they
+ * carried the bearer token.
+ */
+async function createFakeStatementApi(
+  format: DatabricksFormat,
+  chunks: { body: string | Buffer; rowCount: number; httpHeaders?: Record<string, string> }[],
+  state = 'SUCCEEDED',
+  columns: string[] = [],
+) {
+  const routes = new Map<string, string | Buffer | RouteHandler>()
+  const requests: string[] = []
+  const { baseUrl, close } = await createLocalHttpServer(routes)
+
+  const chunkPath = (i: number) => `/api/2.0/sql/statements/st-1/result/chunks/${i}?row_offset=${i * 10}`
+  const link = (i: number) => ({
+    chunk_index: i,
+    row_count: chunks[i]!.rowCount,
+    byte_count: chunks[i]!.body.length,
+    external_link: `${baseUrl}/files/${i}`,
+    ...(chunks[i]!.httpHeaders && { http_headers: chunks[i]!.httpHeaders }),
+    ...(i + 1 < chunks.length && { next_chunk_index: i + 1, next_chunk_internal_link: chunkPath(i + 1) }),
+  })
+  const json = (body: unknown): RouteHandler => (req, res) => {
+    requests.push(`${req.url}${req.headers.authorization === 'Bearer t0ken' ? '+auth' : ''}`)
+    res.setHeader('content-type', 'application/json')
+    res.end(JSON.stringify(body))
   }
 
-  return links
+  routes.set('/api/2.0/sql/statements/st-1', json({
+    statement_id: 'st-1',
+    status: { state },
+    manifest: {
+      format,
+      total_chunk_count: chunks.length,
+      chunks: chunks.map(({ body, rowCount }, i) => ({ chunk_index: i, row_offset: i * 10, row_count: rowCount, byte_count: body.length })),
+      schema: { column_count: columns.length, columns: columns.map((name, position) => ({ name, position })) },
+    },
+    result: { external_links: [link(0)] },
+  }))
+  chunks.forEach(({ body }, i) => {
+    if (i > 0) routes.set(chunkPath(i), json({ external_links: [link(i)] }))
+    routes.set(`/files/${i}`, (req, res) => {
+      requests.push(`${req.url}${req.headers.authorization ? '+auth' : ''}`)
+      res.end(body)
+    })
+  })
+
+  return { host: baseUrl, routes, requests, close }
 }
 
+describe('mergeDatabricksResult', () => {
+  it('follows next_chunk_internal_link and fetches each link right before its chunk', async () => {
+    const api = await createFakeStatementApi('CSV', [
+      { body: 'a,b\n1,2\n3,4\n', rowCount: 2 },
+      { body: 'a,b\n5,6\n', rowCount: 1 },
+      { body: 'a,b\n"7\n8",9\n', rowCount: 1 },
+    ])
+
+    try {
+      const output = new PassThrough()
+      const outPromise = collectToString(output)
+
+      await mergeDatabricksResult({ host: api.host, token: 't0ken', statementId: 'st-1', output })
+
+      expect(await outPromise).toBe('a,b\n1,2\n3,4\n5,6\n"7\n8",9\n')
+      expect(api.requests).toEqual([
+        '/api/2.0/sql/statements/st-1+auth',
+        '/files/0',
+        '/api/2.0/sql/statements/st-1/result/chunks/1?row_offset=10+auth',
+        '/files/1',
+        '/api/2.0/sql/statements/st-1/result/chunks/2?row_offset=20+auth',
+        '/files/2',
+      ])
+    } finally {
+      await api.close()
+    }
+  })
+
+  it('reports progress by the row counts of the manifest', async () => {
+    const api = await createFakeStatementApi('JSON_ARRAY', [
+      { body: '[["1"],["2"],["3"]]', rowCount: 3 },
+      { body: '[["4"]]', rowCount: 1 },
+    ])
+
+    try {
+      const progress: MergeOptionsProgress[] = []
+      const output = new PassThrough()
+      const outPromise = collectToString(output)
+
+      await mergeDatabricksResult({
+        host: api.host,
+        token: 't0ken',
+        statementId: 'st-1',
+        output,
+        onProgress: (p) => progress.push(p),
+        progressIntervalMs: 0,
+      })
+
+      expect(await outPromise).toBe('[["1"],["2"],["3"],["4"]]')
+      expect(progress.find(({ inputIndex }) => inputIndex === 1)).toMatchObject({ inputExpectedRows: 1, percent: 75 })
+    } finally {
+      await api.close()
+    }
+  })
+
+  it('merges ARROW_STREAM and JSON_ARRAY results', async () => {
+    const table = new Table({ a: vectorFromArray([1, 2, 3], new Int32()) })
+    const arrow = await createFakeStatementApi('ARROW_STREAM', [
+      { body: Buffer.from(tableToIPC(table, 'stream')), rowCount: 3 },
+      { body: Buffer.from(tableToIPC(table.slice(0, 1), 'stream')), rowCount: 1 },
+    ])
+    const json = await createFakeStatementApi('JSON_ARRAY', [
+      { body: '[["1"],["2"]]', rowCount: 2 },
+      { body: '[["3"]]', rowCount: 1 },
+    ])
+
+    try {
+      const arrowOutput = new PassThrough()
+      const arrowPromise = collectToBuffer(arrowOutput)
+      await mergeDatabricksResult({ host: arrow.host, token: 't0ken', statementId: 'st-1', format: 'ARROW_STREAM', output: arrowOutput })
+      expect(tableFromIPC(await arrowPromise).getChild('a')!.toArray()).toEqual(new Int32Array([1, 2, 3, 1]))
+
+      const jsonOutput = new PassThrough()
+      const jsonPromise = collectToString(jsonOutput)
+      await mergeDatabricksResult({ host: json.host, token: 't0ken', statementId: 'st-1', output: jsonOutput })
+      expect(JSON.parse(await jsonPromise)).toEqual([['1'], ['2'], ['3']])
+    } finally {
+      await arrow.close()
+      await json.close()
+    }
+  })
+
+  it('selects JSON_ARRAY columns by the names in the manifest schema', async () => {
+    const api = await createFakeStatementApi('JSON_ARRAY', [
+      { body: '[["1","x","9"],["2","y","8"]]', rowCount: 2 },
+      { body: '[["3","z","7"]]', rowCount: 1 },
+    ], 'SUCCEEDED', ['id', 'name', 'score'])
+
+    try {
+      const output = new PassThrough()
+      const outPromise = collectToString(output)
+
+      await mergeDatabricksResult({ host: api.host, token: 't0ken', statementId: 'st-1', output, columns: ['score', 0] })
+
+      expect(await outPromise).toBe('[["9","1"],["8","2"],["7","3"]]')
+      await expect(
+        mergeDatabricksResult({ host: api.host, token: 't0ken', statementId: 'st-1', output: new PassThrough(), columns: ['missing'] }),
+      ).rejects.toThrow('[mergeDatabricksResult] Column "missing" is not in the result schema: [id, name, score]')
+    } finally {
+      await api.close()
+    }
+  })
+
+  it('fetches a fresh link for a chunk whose presigned link has expired', async () => {
+    const api = await createFakeStatementApi('CSV', [
+      { body: 'a\n1\n', rowCount: 1 },
+      { body: 'a\n2\n', rowCount: 1 },
+    ])
+    const serveChunk = api.routes.get('/files/1') as RouteHandler
+    let expired = true
+    api.routes.set('/files/1', (req, res) => {
+      if (!expired) return serveChunk(req, res)
+      expired = false
+      api.requests.push(`${req.url} 403`)
+      res.statusCode = 403
+      res.end('Request has expired')
+    })
+
+    try {
+      const output = new PassThrough()
+      const outPromise = collectToString(output)
+
+      await mergeDatabricksResult({ host: api.host, token: 't0ken', statementId: 'st-1', output })
+
+      expect(await outPromise).toBe('a\n1\n2\n')
+      expect(api.requests.slice(2)).toEqual([
+        '/api/2.0/sql/statements/st-1/result/chunks/1?row_offset=10+auth',
+        '/files/1 403',
+        '/api/2.0/sql/statements/st-1/result/chunks/1?row_offset=10+auth',
+        '/files/1',
+      ])
+    } finally {
+      await api.close()
+    }
+  })
+
+  it('sends http_headers to external links and uses the custom fetch for every request', async () => {
+    const api = await createFakeStatementApi('CSV', [{ body: 'a\n1\n', rowCount: 1, httpHeaders: { 'x-ms-blob-type': 'BlockBlob' } }])
+    api.routes.set('/files/0', (req, res) => {
+      api.requests.push(`/files/0 ${req.headers['x-ms-blob-type']}`)
+      res.end('a\n1\n')
+    })
+
+    const fetched: string[] = []
+    const trackingFetch = ((input: string | URL | Request, init?: RequestInit) => {
+      fetched.push(input instanceof Request ? input.url : String(input))
+      return fetch(input, init)
+    }) as typeof fetch
+
+    try {
+      const output = new PassThrough()
+      const outPromise = collectToString(output)
+
+      await mergeDatabricksResult({ host: api.host, token: 't0ken', statementId: 'st-1', output, fetch: trackingFetch })
+
+      expect(await outPromise).toBe('a\n1\n')
+      expect(api.requests).toEqual(['/api/2.0/sql/statements/st-1+auth', '/files/0 BlockBlob'])
+      expect(fetched).toEqual([`${api.host}/api/2.0/sql/statements/st-1`, `${api.host}/files/0`])
+    } finally {
+      await api.close()
+    }
+  })
+
+  it('fails when a chunk has a different number of rows than its row_count', async () => {
+    const api = await createFakeStatementApi('JSON_ARRAY', [
+      { body: '[["1"],["2"]]', rowCount: 2 },
+      { body: '[["3"],["4"]]', rowCount: 3 },
+    ])
+
+    try {
+      await expect(
+        mergeDatabricksResult({ host: api.host, token: 't0ken', statementId: 'st-1', output: new PassThrough() }),
+      ).rejects.toThrow('[mergeDatabricksResult] Chunk 1 has 2 rows, expected row_count 3')
+    } finally {
+      await api.close()
+    }
+  })
+
+  it('counts the first record of a later CSV chunk as a row unless it repeats the header', async () => {
+    const api = await createFakeStatementApi('CSV', [
+      { body: 'a,b\n1,2\n', rowCount: 1 },
+      { body: '3,4\n5,6\n', rowCount: 2 },
+      { body: 'a,b\n7,8\n', rowCount: 1 },
+    ])
+
+    try {
+      const output = new PassThrough()
+      const outPromise = collectToString(output)
+
+      await mergeDatabricksResult({ host: api.host, token: 't0ken', statementId: 'st-1', output })
+
+      expect(await outPromise).toBe('a,b\n1,2\n3,4\n5,6\n7,8\n')
+    } finally {
+      await api.close()
+    }
+  })
+
+  it('rejects statements that did not succeed or have another format', async () => {
+    const running = await createFakeStatementApi('CSV', [{ body: 'a\n1\n', rowCount: 1 }], 'RUNNING')
+    const csv = await createFakeStatementApi('CSV', [{ body: 'a\n1\n', rowCount: 1 }])
+
+    try {
+      await expect(
+        mergeDatabricksResult({ host: running.host, token: 't0ken', statementId: 'st-1', output: new PassThrough() }),
+      ).rejects.toThrow('Statement st-1 is RUNNING, expected SUCCEEDED')
+      await expect(
+        mergeDatabricksResult({ host: csv.host, token: 't0ken', statementId: 'st-1', format: 'JSON_ARRAY', output: new PassThrough() }),
+      ).rejects.toThrow('Statement st-1 has format CSV, expected JSON_ARRAY')
+      await expect(
+        mergeDatabricksResult({ host: csv.host, token: 't0ken', statementId: 'st-2', output: new PassThrough() }),
+      ).rejects.toThrow(/Failed to fetch '.*\/st-2': 404/)
+    } finally {
+      await running.close()
+      await csv.close()
+    }
+  })
+})
+
 async function countLines(filePath: string): Promise<number> {
   const content = await fsp.readFile(filePath, 'utf8')
   return content.split('\n').filter(line => line.length > 0).length
@@ -93,13 +338,10 @@ describe.skipIf(!DATABRICKS_TOKEN || !DATABRICKS_HOST || !DATABRICKS_HTTP_PATH)(
       console.log(`Total chunks: ${result.manifest.total_chunk_count}`)
       console.log(`Total rows: ${result.manifest.total_row_count}`)
 
-      const urls = await getAllExternalLinks(result)
-      expect(urls.length).toBe(result.manifest.total_chunk_count)
-
       const outputPath = path.join(tmpDir, 'merged.csv')
       const output = createWriteStream(outputPath)
 
-      await mergeStreamsFromUrls('CSV', { urls, output })
+      await mergeDatabricksResult({ host: DATABRICKS_HOST!, token: DATABRICKS_TOKEN!, statementId: result.statement_id, format: 'CSV', output })
 
       const lineCount = await countLines(outputPath)
       // +1 for header
@@ -116,12 +358,10 @@ describe.skipIf(!DATABRICKS_TOKEN || !DATABRICKS_HOST || !DATABRICKS_HTTP_PATH)(
       console.log(`Total chunks: ${result.manifest.total_chunk_count}`)
       console.log(`Total rows: ${result.manifest.total_row_count}`)
 
-      const urls = await getAllExternalLinks(result)
-
       const outputPath = path.join(tmpDir, 'merged.json')
       const output = createWriteStream(outputPath)
 
-      await mergeStreamsFromUrls('JSON_ARRAY', { urls, output })
+      await mergeDatabricksResult({ host: DATABRICKS_HOST!, token: DATABRICKS_TOKEN!, statementId: result.statement_id, format: 'JSON_ARRAY', output })
 
       const content = await fsp.readFile(outputPath, 'utf8')
       const parsed = JSON.parse(content)
@@ -139,12 +379,10 @@ describe.skipIf(!DATABRICKS_TOKEN || !DATABRICKS_HOST || !DATABRICKS_HTTP_PATH)(
       console.log(`Total chunks: ${result.manifest.total_chunk_count}`)
       console.log(`Total rows: ${result.manifest.total_row_count}`)
 
-      const urls = await getAllExternalLinks(result)
-
       const outputPath = path.join(tmpDir, 'merged.arrow')
       const output = createWriteStream(outputPath)
 
-      await mergeStreamsFromUrls('ARROW_STREAM', { urls, output })
+      await mergeDatabricksResult({ host: DATABRICKS_HOST!, token: DATABRICKS_TOKEN!, statementId: result.statement_id, format: 'ARROW_STREAM', output })
 
       const stats = await fsp.stat(outputPath)
       expect(stats.size).toBeGreaterThan(0)
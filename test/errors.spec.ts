@@ -0,0 +1,85 @@
+import { PassThrough, Readable } from 'node:stream'
+import { Int32, Table, tableToIPC, Utf8, vectorFromArray } from 'apache-arrow'
+import { describe, it, expect } from 'vitest'
+import { FetchError, MergeError, ParseError, SchemaError } from '../src/errors.js'
+import { mergeArrow } from '../src/mergeArrow.js'
+import { mergeJson } from '../src/mergeJson.js'
+import { mergeStreams, mergeStreamsFromUrls } from '../src/mergeStreams.js'
+import { createLocalHttpServer } from './testUtil.js'
+
+describe('merge errors', () => {
+  it('fails with a FetchError carrying the url, status and input index', async () => {
+    const { baseUrl, close } = await createLocalHttpServer(new Map([['/c0.csv', 'a\n1\n']]))
+
+    try {
+      const error = await mergeStreamsFromUrls('CSV', {
+        urls: [`${baseUrl}/c0.csv`, `${baseUrl}/missing.csv`],
+        output: new PassThrough(),
+      }).catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(FetchError)
+      expect(error).toMatchObject({ status: 404, url: `${baseUrl}/missing.csv`, inputIndex: 1 })
+    } finally {
+      await close()
+    }
+  })
+
+  it('fails with a ParseError at the offending byte', async () => {
+    const error = await mergeJson({
+      inputs: [Readable.from(['[1]']), Readable.from(['[2]', ' x'])],
+      output: new PassThrough(),
+    }).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(ParseError)
+    expect(error).toMatchObject({ inputIndex: 1, byteOffset: 4 })
+  })
+
+  it('fails with a SchemaError for mismatched arrow schemas', async () => {
+    const t1 = new Table({ a: vectorFromArray([1], new Int32()) })
+    const t2 = new Table({ a: vectorFromArray(['x'], new Utf8()) })
+
+    const error = await mergeArrow({
+      inputs: [t1, t2].map((t) => Readable.from([Buffer.from(tableToIPC(t, 'stream'))])),
+      output: new PassThrough(),
+    }).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(SchemaError)
+    expect(error).toMatchObject({ inputIndex: 1 })
+  })
+
+  it('fails with a ParseError for input that is not arrow IPC', async () => {
+    const error = await mergeArrow({
+      inputs: [Readable.from([Buffer.from('not arrow at all')])],
+      output: new PassThrough(),
+    }).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(ParseError)
+    expect(error).toMatchObject({ inputIndex: 0 })
+  })
+
+  it('wraps input stream errors with the input index and cause', async () => {
+    const cause = new Error('socket hang up')
+    const failing = new Readable({ read() {} })
+    failing.push('a\n1\n')
+    setTimeout(() => failing.destroy(cause), 10)
+
+    const error = await mergeStreams('CSV', {
+      inputs: [Readable.from(['a\n0\n']), failing],
+      output: new PassThrough(),
+    }).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(MergeError)
+    expect(error).toMatchObject({ inputIndex: 1, byteOffset: 4, cause })
+    expect((error as Error).message).toBe('[mergeCsv] Failed to read input 1: socket hang up')
+  })
+
+  it('fails an aborted merge with the signal reason', async () => {
+    const controller = new AbortController()
+    const reason = new Error('user cancelled')
+    controller.abort(reason)
+
+    await expect(
+      mergeJson({ inputs: [Readable.from(['[1]'])], output: new PassThrough(), signal: controller.signal }),
+    ).rejects.toBe(reason)
+  })
+})
@@ -0,0 +1,180 @@
+import diagnosticsChannel from 'node:diagnostics_channel'
+import { PassThrough, Readable } from 'node:stream'
+import { Int32, Table, tableToIPC, vectorFromArray } from 'apache-arrow'
+import { describe, it, expect } from 'vitest'
+import { ParseError } from '../src/errors.js'
+import { mergeArrow } from '../src/mergeArrow.js'
+import { mergeCsv } from '../src/mergeCsv.js'
+import { mergeJson } from '../src/mergeJson.js'
+import { mergeStreamsFromUrls } from '../src/mergeStreams.js'
+import type { MergeEvents, MergeHooks } from '../src/types.js'
+import type { RouteHandler } from './testUtil.js'
+import { collectToBuffer, collectToString, createLocalHttpServer, sendBody } from './testUtil.js'
+
+type RecordedEvent = { [K in keyof MergeEvents]: [K, MergeEvents[K]] }[keyof MergeEvents]
+
+/** Hooks recording every event in order */
+function recordingHooks(): { hooks: MergeHooks; events: RecordedEvent[] } {
+  const events: RecordedEvent[] = []
+  const record = <K extends keyof MergeEvents>(name: K) => (event: MergeEvents[K]) => {
+    events.push([name, event] as RecordedEvent)
+  }
+
+  return {
+    events,
+    hooks: {
+      onMergeStart: record('mergeStart'),
+      onInputResolveStart: record('inputResolveStart'),
+      onInputResolveEnd: record('inputResolveEnd'),
+      onInputFirstByte: record('inputFirstByte'),
+      onInputEnd: record('inputEnd'),
+      onHeaderSkipped: record('headerSkipped'),
+      onBatchWritten: record('batchWritten'),
+      onRetry: record('retry'),
+      onMergeComplete: record('mergeComplete'),
+      onMergeFailed: record('mergeFailed'),
+    },
+  }
+}
+
+describe('lifecycle events', () => {
+  it('calls hooks for each input and the merge, in order', async () => {
+    const { hooks, events } = recordingHooks()
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    const result = await mergeCsv({
+      inputs: [Readable.from(['a\n1\n']), () => Readable.from(['a\n2\n3\n'])],
+      output: pass,
+      hooks,
+    })
+
+    expect(await outPromise).toBe('a\n1\n2\n3\n')
+    expect(events.map(([name, event]) => ('inputIndex' in event ? `${name}:${event.inputIndex}` : name))).toEqual([
+      'mergeStart',
+      'inputResolveStart:0',
+      'inputResolveEnd:0',
+      'inputFirstByte:0',
+      'inputEnd:0',
+      'inputResolveStart:1',
+      'inputResolveEnd:1',
+      'inputFirstByte:1',
+      'headerSkipped:1',
+      'inputEnd:1',
+      'mergeComplete',
+    ])
+    expect(events[0]).toEqual(['mergeStart', { merger: 'mergeCsv', totalInputs: 2 }])
+    expect(events.find(([name]) => name === 'inputEnd')![1]).toMatchObject({ inputIndex: 0, inputedBytes: 4, rows: 1 })
+    expect(events[events.length - 1]).toEqual(['mergeComplete', { merger: 'mergeCsv', result }])
+  })
+
+  it('publishes inputEnd before the next input is opened', async () => {
+    const { hooks, events } = recordingHooks()
+    let endedBeforeOpen: boolean | undefined
+
+    await mergeJson({
+      inputs: [Readable.from(['[1]']), () => {
+        endedBeforeOpen = events.some(([name]) => name === 'inputEnd')
+        return Readable.from(['[2]'])
+      }],
+      output: new PassThrough().resume(),
+      hooks,
+    })
+
+    expect(endedBeforeOpen).toBe(true)
+  })
+
+  it('reports input resolve failures and the merge failure', async () => {
+    const { hooks, events } = recordingHooks()
+    const cause = new Error('gone')
+
+    const error = await mergeJson({
+      inputs: [Readable.from(['[1]']), () => Promise.reject(cause)],
+      output: new PassThrough(),
+      hooks,
+    }).catch((e: unknown) => e)
+
+    expect(events).toContainEqual(['inputResolveEnd', { inputIndex: 1, durationMs: expect.any(Number), error: cause }])
+    expect(events[events.length - 1]).toEqual(['mergeFailed', { merger: 'mergeJson', error, elapsedMs: expect.any(Number) }])
+  })
+
+  it('reports written arrow batches', async () => {
+    const { hooks, events } = recordingHooks()
+    const table = new Table({ a: vectorFromArray([1, 2, 3], new Int32()) })
+    const pass = new PassThrough()
+    const outBuffer = collectToBuffer(pass)
+
+    await mergeArrow({
+      inputs: [Readable.from([Buffer.from(tableToIPC(table, 'stream'))])],
+      output: pass,
+      arrow: { targetBatchRows: 2 },
+      hooks,
+    })
+    await outBuffer
+
+    expect(events.filter(([name]) => name === 'batchWritten').map(([, event]) => event)).toEqual([
+      { batchIndex: 0, rows: 2 },
+      { batchIndex: 1, rows: 1 },
+    ])
+  })
+
+  it('reports retries of url inputs with their input index', async () => {
+    let calls = 0
+    const routes = new Map<string, string | RouteHandler>([
+      ['/c0.csv', 'a\n1\n'],
+      ['/c1.csv', (req, res) => {
+        calls += 1
+        if (calls === 1) {
+          res.statusCode = 503
+          res.end('unavailable')
+          return
+        }
+        sendBody(req, res, 'a\n2\n')
+      }],
+    ])
+    const { baseUrl, close } = await createLocalHttpServer(routes)
+
+    try {
+      const { hooks, events } = recordingHooks()
+      const retries: unknown[] = []
+      const pass = new PassThrough()
+      const outPromise = collectToString(pass)
+
+      await mergeStreamsFromUrls('CSV', {
+        urls: [`${baseUrl}/c0.csv`, `${baseUrl}/c1.csv`],
+        output: pass,
+        retry: { baseDelayMs: 1, onRetry: (event) => retries.push(event) },
+        hooks,
+      })
+
+      expect(await outPromise).toBe('a\n1\n2\n')
+      const retry = { url: `${baseUrl}/c1.csv`, attempt: 2, delayMs: expect.any(Number), byteOffset: 0, error: expect.objectContaining({ status: 503 }) }
+      expect(retries).toEqual([retry])
+      expect(events.filter(([name]) => name === 'retry')).toEqual([['retry', { ...retry, inputIndex: 1 }]])
+    } finally {
+      await close()
+    }
+  })
+
+  it('publishes events on diagnostics channels', async () => {
+    const received: [string, unknown][] = []
+    const subscribers = ['mergeStart', 'inputEnd', 'mergeFailed'].map((name) => {
+      const onMessage = (message: unknown) => received.push([name, message])
+      diagnosticsChannel.subscribe(`merge-streams:${name}`, onMessage)
+      return () => diagnosticsChannel.unsubscribe(`merge-streams:${name}`, onMessage)
+    })
+
+    try {
+      const error = await mergeJson({
+        inputs: [Readable.from(['[1]']), Readable.from(['[2', ' x'])],
+        output: new PassThrough(),
+      }).catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(ParseError)
+      expect(received.map(([name]) => name)).toEqual(['mergeStart', 'inputEnd', 'mergeFailed'])
+      expect(received[2]![1]).toMatchObject({ merger: 'mergeJson', error })
+    } finally {
+      for (const unsubscribe of subscribers) unsubscribe()
+    }
+  })
+})
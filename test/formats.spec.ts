@@ -0,0 +1,93 @@
+import { PassThrough, Readable } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import zlib from 'node:zlib'
+import { describe, it, expect } from 'vitest'
+import { registerFormat } from '../src/formats.js'
+import { mergeStreams, mergeStreamsFromUrls } from '../src/mergeStreams.js'
+import type { FormatMerger, MergeFormat, MergeOptionsProgress } from '../src/types.js'
+import { collectToBuffer, collectToString } from './testUtil.js'
+
+declare module '../src/types.js' {
+  interface CustomFormats {
+    XML_ROWS: true
+    RAW: true
+  }
+}
+
+/** Merges `<rows>...</rows>` documents into one, keeping the rows of every input. */
+const mergeXmlRows: FormatMerger = async ({ inputs, write, throwIfAborted }) => {
+  await write('<rows>')
+  for await (const { stream } of inputs()) {
+    let text = ''
+    for await (const chunk of stream) {
+      throwIfAborted()
+      text += String(chunk)
+    }
+    await write(text.replace(/^\s*<rows>|<\/rows>\s*$/g, ''))
+  }
+  await write('</rows>')
+}
+
+registerFormat('XML_ROWS', mergeXmlRows)
+
+// Pipes every input straight to the output, which it ends itself.
+registerFormat('RAW', async ({ inputs, output }) => {
+  const all = new PassThrough()
+  const piped = pipeline(all, output)
+  for await (const { stream } of inputs()) {
+    for await (const chunk of stream) all.write(chunk)
+  }
+  all.end()
+  await piped
+})
+
+describe('registerFormat', () => {
+  it('merges a registered format with progress tracking and output compression', async () => {
+    const progress: MergeOptionsProgress[] = []
+    const pass = new PassThrough()
+    const outPromise = collectToBuffer(pass)
+
+    await mergeStreams('XML_ROWS', {
+      inputs: [Readable.from(['<rows><r>1</r>', '</rows>']), () => Readable.from([zlib.gzipSync('<rows><r>2</r></rows>\n')])],
+      output: pass,
+      outputCompression: 'gzip',
+      onProgress: (p) => progress.push(p),
+      progressIntervalMs: 0,
+    })
+
+    const out = await outPromise
+    expect(zlib.gunzipSync(out).toString()).toBe('<rows><r>1</r><r>2</r></rows>')
+
+    const last = progress[progress.length - 1]!
+    expect(last).toMatchObject({ inputIndex: 1, totalInputs: 2, inputedBytes: 43, mergedBytes: 29, compressedMergedBytes: out.length })
+  })
+
+  it('works with mergeStreamsFromUrls and mergers that end the output themselves', async () => {
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    await mergeStreamsFromUrls('RAW', { urls: ['data:,a%0A', 'data:,b%0A'], output: pass })
+
+    expect(await outPromise).toBe('a\nb\n')
+  })
+
+  it('stops an aborted merge', async () => {
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(
+      mergeStreams('XML_ROWS', { inputs: [Readable.from(['<rows></rows>'])], output: new PassThrough(), signal: controller.signal }),
+    ).rejects.toMatchObject({ name: 'AbortError' })
+  })
+
+  it('rejects built-in names and outputFormat conversions', async () => {
+    expect(() => registerFormat('CSV' as 'RAW', mergeXmlRows)).toThrow('[registerFormat] Cannot replace built-in format: CSV')
+
+    await expect(
+      mergeStreams('XML_ROWS', { inputs: [Readable.from(['<rows></rows>'])], output: new PassThrough(), outputFormat: 'CSV' }),
+    ).rejects.toThrow('Cannot convert XML_ROWS to CSV')
+    await expect(
+      mergeStreams('UNKNOWN' as MergeFormat, { inputs: [Readable.from([''])], output: new PassThrough() }),
+    ).rejects.toThrow('[mergeStreams] Unsupported format: UNKNOWN')
+  })
+})
@@ -0,0 +1,227 @@
+import { PassThrough, Readable } from 'node:stream'
+import { Int32, Table, tableFromIPC, tableToIPC, Utf8, vectorFromArray } from 'apache-arrow'
+import { describe, it, expect } from 'vitest'
+import { FetchError, ParseError, SchemaError } from '../src/errors.js'
+import { mergeArrow } from '../src/mergeArrow.js'
+import { mergeCsv } from '../src/mergeCsv.js'
+import { mergeJson } from '../src/mergeJson.js'
+import { mergeStreams, mergeStreamsFromUrls } from '../src/mergeStreams.js'
+import type { MergeFormat, MergeOptions } from '../src/types.js'
+import { collectToBuffer, collectToString, createLocalHttpServer } from './testUtil.js'
+
+/** A stream that emits `chunks`, then fails */
+function failingStream(chunks: string[], message = 'connection reset'): Readable {
+  const stream = new Readable({ read() {} })
+  for (const chunk of chunks) stream.push(chunk)
+  setTimeout(() => stream.destroy(new Error(message)), 10)
+  return stream
+}
+
+function arrowStream(values: number[]): Readable {
+  return Readable.from([Buffer.from(tableToIPC(new Table({ a: vectorFromArray(values, new Int32()) }), 'stream'))])
+}
+
+describe('onInputError', () => {
+  it('skips inputs that fail to fetch and reports them', async () => {
+    const { baseUrl, close } = await createLocalHttpServer(new Map([
+      ['/c0.csv', 'a,b\n1,2\n'],
+      ['/c2.csv', 'a,b\n5,6\n'],
+    ]))
+
+    try {
+      const pass = new PassThrough()
+      const outPromise = collectToString(pass)
+
+      const result = await mergeStreamsFromUrls('CSV', {
+        urls: [`${baseUrl}/c0.csv`, `${baseUrl}/missing.csv`, `${baseUrl}/c2.csv`],
+        output: pass,
+        onInputError: 'skip',
+      })
+
+      expect(await outPromise).toBe('a,b\n1,2\n5,6\n')
+      expect(result.skipped).toHaveLength(1)
+      expect(result.skipped[0]!.inputIndex).toBe(1)
+      expect(result.skipped[0]!.error).toBeInstanceOf(FetchError)
+      expect(result.skipped[0]!.error).toMatchObject({ status: 404 })
+    } finally {
+      await close()
+    }
+  })
+
+  it('takes the CSV header from the first input that is not skipped', async () => {
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    const result = await mergeCsv({
+      inputs: [() => Promise.reject(new Error('gone')), Readable.from(['a,b\n1,2\n']), Readable.from(['a,b\n3,4\n'])],
+      output: pass,
+      onInputError: 'skip',
+    })
+
+    expect(await outPromise).toBe('a,b\n1,2\n3,4\n')
+    expect(result.skipped.map(({ inputIndex }) => inputIndex)).toEqual([0])
+  })
+
+  it('keeps complete CSV records of an input that fails mid-stream', async () => {
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    const result = await mergeCsv({
+      inputs: [Readable.from(['a\n0\n']), failingStream(['a\n1\n2']), Readable.from(['a\n3\n'])],
+      output: pass,
+      onInputError: 'skip',
+    })
+
+    expect(await outPromise).toBe('a\n0\n1\n3\n')
+    expect(result.skipped[0]).toMatchObject({ inputIndex: 1, error: { byteOffset: 5 } })
+  })
+
+  it('leaves skipped inputs out of union and unify schemas', async () => {
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    const csv = await mergeCsv({
+      inputs: [Readable.from(['a\n1\n']), () => Promise.reject(new Error('gone')), Readable.from(['b\n2\n'])],
+      output: pass,
+      csv: { headerMismatch: 'union' },
+      onInputError: 'skip',
+    })
+    expect(await outPromise).toBe('a,b\n1,\n,2\n')
+    expect(csv.skipped.map(({ inputIndex }) => inputIndex)).toEqual([1])
+
+    const arrowOut = new PassThrough()
+    const outBuffer = collectToBuffer(arrowOut)
+    const mismatched = Readable.from([Buffer.from(tableToIPC(new Table({ a: vectorFromArray(['x'], new Utf8()) }), 'stream'))])
+
+    const arrow = await mergeArrow({
+      inputs: [arrowStream([1]), mismatched, arrowStream([2])],
+      output: arrowOut,
+      arrow: { schemaMode: 'unify' },
+      onInputError: 'skip',
+    })
+    expect(tableFromIPC(await outBuffer).getChild('a')!.toArray()).toEqual(Int32Array.from([1, 2]))
+    expect(arrow.skipped[0]!.error).toBeInstanceOf(SchemaError)
+  })
+
+  it('never writes a partial JSON element', async () => {
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    const result = await mergeJson({
+      inputs: [Readable.from(['[0]']), failingStream(['[1,{"a":']), Readable.from(['[2]'])],
+      output: pass,
+      onInputError: 'skip',
+    })
+
+    expect(JSON.parse(await outPromise)).toEqual([0, 1, 2])
+    expect(result.skipped.map(({ inputIndex }) => inputIndex)).toEqual([1])
+  })
+
+  it('skips invalid JSON inputs and writes an empty array when all are skipped', async () => {
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    const result = await mergeJson({
+      inputs: [Readable.from(['{"a":1}']), Readable.from(['not json'])],
+      output: pass,
+      onInputError: 'skip',
+    })
+
+    expect(await outPromise).toBe('[]')
+    expect(result.skipped.map(({ error }) => error)).toEqual([expect.any(ParseError), expect.any(ParseError)])
+  })
+
+  it('merges replacements returned by the callback', async () => {
+    const calls: [number, string][] = []
+    const pass = new PassThrough()
+    const outBuffer = collectToBuffer(pass)
+
+    const result = await mergeArrow({
+      inputs: [arrowStream([1, 2]), Readable.from([Buffer.from('not arrow')]), arrowStream([5])],
+      output: pass,
+      onInputError: (error, index) => {
+        calls.push([index, error.name])
+        // The first replacement fails too; the callback is asked again.
+        return calls.length === 1 ? () => Promise.reject(new Error('mirror down')) : arrowStream([3, 4])
+      },
+    })
+
+    const table = tableFromIPC(await outBuffer)
+    expect(table.getChild('a')!.toArray()).toEqual(Int32Array.from([1, 2, 3, 4, 5]))
+    expect(calls).toEqual([[1, 'ParseError'], [1, 'MergeError']])
+    expect(result.skipped).toEqual([])
+  })
+
+  it('resumes the replacement of an input that fails mid-stream after the records it passed', async () => {
+    const merge = async (format: MergeFormat, inputs: Readable[], replacement: string | Uint8Array, extra: Partial<MergeOptions> = {}) => {
+      const pass = new PassThrough()
+      const outBuffer = collectToBuffer(pass)
+      await mergeStreams(format, {
+        inputs,
+        output: pass,
+        onInputError: () => Readable.from([Buffer.from(replacement)]),
+        ...extra,
+      })
+      return outBuffer
+    }
+
+    // The record left out by `offset` is passed too.
+    const csv = await merge('CSV', [failingStream(['a\n1\n2\n']), Readable.from(['a\n4\n'])], 'a\n1\n2\n3\n', { offset: 1 })
+    expect(csv.toString()).toBe('a\n2\n3\n4\n')
+
+    // The partial element is not passed, so the replacement writes it.
+    const json = await merge('JSON_ARRAY', [failingStream(['[1,{"a":'])], '[1,{"a":2},3]')
+    expect(JSON.parse(json.toString())).toEqual([1, { a: 2 }, 3])
+
+    const lines = await merge('JSON_LINES', [failingStream(['1\n2\n'])], '1\n2\n3\n')
+    expect(lines.toString()).toBe('1\n2\n3\n')
+
+    // The stream fails after its first batch (before its end-of-stream marker).
+    const ipc = tableToIPC(new Table({ a: vectorFromArray([1, 2], new Int32()) }), 'stream')
+    const cut = new Readable({ read() {} })
+    cut.push(Buffer.from(ipc.subarray(0, -8)))
+    setTimeout(() => cut.destroy(new Error('connection reset')), 10)
+    const full = tableToIPC(new Table({ a: vectorFromArray([1, 2, 3], new Int32()) }), 'stream')
+    const arrow = await merge('ARROW_STREAM', [cut], full)
+    expect(tableFromIPC(arrow).getChild('a')!.toArray()).toEqual(Int32Array.from([1, 2, 3]))
+  })
+
+  it('skips arrow inputs whose schema does not match', async () => {
+    const mismatched = Readable.from([Buffer.from(tableToIPC(new Table({ a: vectorFromArray(['x'], new Utf8()) }), 'stream'))])
+    const pass = new PassThrough()
+    const outBuffer = collectToBuffer(pass)
+
+    const result = await mergeArrow({
+      inputs: [arrowStream([1]), mismatched, arrowStream([2])],
+      output: pass,
+      onInputError: 'skip',
+    })
+
+    expect(tableFromIPC(await outBuffer).numRows).toBe(2)
+    expect(result.skipped[0]!.error).toBeInstanceOf(SchemaError)
+  })
+
+  it('transcodes replacements when converting formats', async () => {
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    await mergeStreams('JSON_ARRAY', {
+      inputs: [Readable.from(['[{"a":1}]']), Readable.from(['[{"a":']), Readable.from(['[{"a":3}]'])],
+      output: pass,
+      outputFormat: 'CSV',
+      onInputError: () => Readable.from(['[{"a":2}]']),
+    })
+
+    expect(await outPromise).toBe('a\n1\n2\n3\n')
+  })
+
+  it('fails by default and rejects unknown policies', async () => {
+    const inputs = () => [Readable.from(['[1]']), Readable.from(['oops'])]
+
+    await expect(mergeJson({ inputs: inputs(), output: new PassThrough() })).rejects.toBeInstanceOf(ParseError)
+    await expect(
+      // @ts-expect-error invalid policy
+      mergeJson({ inputs: inputs(), output: new PassThrough(), onInputError: 'ignore' }),
+    ).rejects.toThrow(/onInputError must be/)
+  })
+})
@@ -2,12 +2,40 @@ import fs from 'node:fs'
 import fsp from 'node:fs/promises'
 import os from 'node:os'
 import path from 'node:path'
-import { Readable } from 'node:stream'
-import { RecordBatchReader, RecordBatchStreamWriter, Table, Utf8, vectorFromArray } from 'apache-arrow'
+import { PassThrough, Readable } from 'node:stream'
+import {
+  Bool,
+  Dictionary,
+  Field,
+  Float32,
+  Float64,
+  Int8,
+  Int32,
+  Int64,
+  List,
+  makeData,
+  makeVector,
+  MessageHeader,
+  MessageReader,
+  RecordBatch,
+  RecordBatchFileReader,
+  RecordBatchReader,
+  RecordBatchStreamWriter,
+  Schema,
+  Struct,
+  Table,
+  tableFromIPC,
+  tableToIPC,
+  TimestampNanosecond,
+  Utf8,
+  vectorFromArray,
+} from 'apache-arrow'
+import type { Vector } from 'apache-arrow'
 import { describe, it, expect } from 'vitest'
 import { mergeArrow } from '../src/mergeArrow.js'
 import { mergeStreamsFromUrls } from '../src/mergeStreams.js'
-import { createLocalHttpServer } from './testUtil.js'
+import type { ArrowOptions } from '../src/types.js'
+import { collectToBuffer, createLocalHttpServer } from './testUtil.js'
 
 async function countArrowStreamRows(src: Readable | NodeJS.ReadableStream): Promise<number> {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -75,6 +103,18 @@ describe('mergeArrow (Readable[] -> Writable)', () => {
       await fsp.rm(outPath, { force: true })
     }
   })
+  it('fails when an input stream errors mid-stream', async () => {
+    const bytes = tableToIPC(new Table({ a: vectorFromArray([1, 2], new Int32()) }), 'stream')
+    const failing = Readable.from((async function* () {
+      yield Buffer.from(bytes.subarray(0, 100))
+      throw new Error('connection reset')
+    })())
+
+    const pass = new PassThrough()
+    collectToBuffer(pass).catch(() => { /* output is destroyed when the merge fails */ })
+
+    await expect(mergeArrow({ inputs: [failing], output: pass })).rejects.toThrow(/connection reset/)
+  })
 })
 
 describe('mergeStreamsFromUrls ARROW_STREAM (http URLs -> Writable)', () => {
@@ -124,3 +164,254 @@ describe('mergeStreamsFromUrls ARROW_STREAM (http URLs -> Writable)', () => {
     }
   })
 })
+
+describe('mergeArrow schema handling', () => {
+  async function mergeTables(tables: Table[], schemaMode?: 'strict' | 'unify'): Promise<Table> {
+    const pass = new PassThrough()
+    const outPromise = collectToBuffer(pass)
+    outPromise.catch(() => { /* output is destroyed when the merge fails */ })
+    await mergeArrow({
+      inputs: tables.map((t) => Readable.from([Buffer.from(tableToIPC(t, 'stream'))])),
+      output: pass,
+      ...(schemaMode && { arrow: { schemaMode } }),
+    })
+    return tableFromIPC(await outPromise)
+  }
+
+  function nonNullable(name: string, values: number[]): Table {
+    const vector = vectorFromArray(values, new Int32())
+    const schema = new Schema([new Field(name, new Int32(), false)])
+    return new Table(schema, [new RecordBatch(schema, makeData({
+      type: new Struct(schema.fields), length: values.length, nullCount: 0, children: [vector.data[0]!],
+    }))])
+  }
+
+  it('fails with the input index and field when a column type differs', async () => {
+    const t1 = new Table({ a: vectorFromArray([1, 2], new Int32()), b: vectorFromArray(['x', 'y'], new Utf8()) })
+    const t2 = new Table({ a: vectorFromArray([3n], new Int64()), b: vectorFromArray(['z'], new Utf8()) })
+
+    await expect(mergeTables([t1, t1, t2])).rejects.toThrow(
+      /Schema of input 2 does not match the first input: field 'a' has type Int64, expected Int32/,
+    )
+  })
+
+  it('fails when a field is missing', async () => {
+    const t1 = new Table({ a: vectorFromArray([1], new Int32()), b: vectorFromArray(['x'], new Utf8()) })
+    const t2 = new Table({ a: vectorFromArray([2], new Int32()) })
+
+    await expect(mergeTables([t1, t2])).rejects.toThrow(/Schema of input 1 .*missing field 'b'/)
+  })
+
+  it('accepts non-nullable fields under a nullable first schema but not the reverse', async () => {
+    const nullable = new Table({ a: vectorFromArray([1, null], new Int32()) })
+
+    const merged = await mergeTables([nullable, nonNullable('a', [3])])
+    expect(merged.getChild('a')!.toArray()).toEqual(new Int32Array([1, 0, 3]))
+    expect(merged.getChild('a')!.nullCount).toBe(1)
+
+    await expect(mergeTables([nonNullable('a', [3]), nullable])).rejects.toThrow(
+      /field 'a' is nullable, expected non-nullable/,
+    )
+  })
+
+  it('promotes types, widens nullability and null-fills missing columns with unify', async () => {
+    const t1 = new Table({ a: vectorFromArray([1, 2], new Int32()), b: vectorFromArray(['x', 'y'], new Utf8()) })
+    const t2 = new Table({ a: vectorFromArray([3n], new Int64()), c: vectorFromArray([1.5], new Float32()) })
+
+    const merged = await mergeTables([nonNullable('a', [0]), t1, t2], 'unify')
+
+    expect(merged.schema.fields.map((f) => `${f.name}:${f.type}:${f.nullable}`)).toEqual([
+      'a:Int64:true',
+      'b:Utf8:true',
+      'c:Float32:true',
+    ])
+    expect(merged.toArray().map((row) => row.toJSON())).toEqual([
+      { a: 0n, b: null, c: null },
+      { a: 1n, b: 'x', c: null },
+      { a: 2n, b: 'y', c: null },
+      { a: 3n, b: null, c: 1.5 },
+    ])
+  })
+
+  it('fails with unify when types cannot be reconciled', async () => {
+    const t1 = new Table({ a: vectorFromArray([1], new Int32()) })
+    const t2 = new Table({ a: vectorFromArray(['x'], new Utf8()) })
+
+    await expect(mergeTables([t1, t2], 'unify')).rejects.toThrow(
+      /Field 'a' of input 1 has type Utf8, which cannot be unified with Int32/,
+    )
+  })
+})
+
+describe('mergeArrow dictionary-encoded columns', () => {
+  function dictTable(...batches: (string | null)[][]): Table {
+    const type = new Dictionary(new Utf8(), new Int8())
+    return new Table(batches.map((values) => new Table({
+      c: vectorFromArray(values, type),
+      n: vectorFromArray(values.map((_, i) => i), new Int32()),
+    }).batches[0]!))
+  }
+
+  async function mergeToBytes(tables: Table[]): Promise<Buffer> {
+    const pass = new PassThrough()
+    const outPromise = collectToBuffer(pass)
+    await mergeArrow({
+      inputs: tables.map((t) => Readable.from([Buffer.from(tableToIPC(t, 'stream'))])),
+      output: pass,
+    })
+    return outPromise
+  }
+
+  it('merges inputs with disjoint dictionaries into one shared dictionary', async () => {
+    const bytes = await mergeToBytes([
+      dictTable(['a', 'b', 'a']),
+      dictTable(['x', null, 'y'], ['y', 'z']),
+      dictTable(['b', 'z', 'q']),
+    ])
+
+    const merged = tableFromIPC(bytes)
+    expect([...merged.getChild('c')!]).toEqual(['a', 'b', 'a', 'x', null, 'y', 'y', 'z', 'b', 'z', 'q'])
+
+    const lastBatch = merged.batches[merged.batches.length - 1]!
+    expect([...lastBatch.getChild('c')!.data[0]!.dictionary!]).toEqual(['a', 'b', 'x', 'y', 'z', 'q'])
+    expect(String(merged.schema.fields[0]!.type)).toBe('Dictionary<Int32, Utf8>')
+  })
+
+  it('emits a single initial dictionary followed only by deltas', async () => {
+    const bytes = await mergeToBytes([dictTable(['a']), dictTable(['b']), dictTable(['a', 'c'])])
+
+    const dictionaryMessages = [...new MessageReader(bytes)]
+      .filter((message) => message.headerType === MessageHeader.DictionaryBatch)
+      .map((message) => message.header().isDelta)
+
+    expect(dictionaryMessages[0]).toBe(false)
+    expect(dictionaryMessages.slice(1).every((isDelta) => isDelta)).toBe(true)
+  })
+})
+
+describe('mergeArrow IPC file output', () => {
+  it('writes the arrow file format with a footer listing every batch', async () => {
+    const dict = new Dictionary(new Utf8(), new Int32())
+    const t1 = new Table({ a: vectorFromArray([1, 2], new Int32()), d: vectorFromArray(['x', 'y'], dict) })
+    const t2 = new Table({ a: vectorFromArray([3], new Int32()), d: vectorFromArray(['z'], new Dictionary(new Utf8(), new Int32())) })
+
+    const pass = new PassThrough()
+    const outPromise = collectToBuffer(pass)
+    await mergeArrow({
+      inputs: [t1, t2].map((t) => Readable.from([Buffer.from(tableToIPC(t, 'stream'))])),
+      output: pass,
+      arrow: { ipcFormat: 'file' },
+    })
+    const bytes = await outPromise
+
+    expect(bytes.subarray(0, 6).toString('latin1')).toBe('ARROW1')
+    expect(bytes.subarray(bytes.length - 6).toString('latin1')).toBe('ARROW1')
+
+    const reader = RecordBatchFileReader.from(bytes)
+    reader.open()
+    expect(reader.numRecordBatches).toBe(2)
+
+    const merged = tableFromIPC(bytes)
+    expect(merged.toArray().map((row) => row.toJSON())).toEqual([
+      { a: 1, d: 'x' },
+      { a: 2, d: 'y' },
+      { a: 3, d: 'z' },
+    ])
+  })
+
+  it('rejects an unknown ipcFormat', async () => {
+    await expect(
+      mergeArrow({ inputs: [Readable.from([])], output: new PassThrough(), arrow: { ipcFormat: 'feather' as 'file' } }),
+    ).rejects.toThrow(/arrow.ipcFormat must be 'stream' or 'file'/)
+  })
+})
+
+describe('mergeArrow batch re-chunking', () => {
+  function batchedTable(...sizes: number[]): Table {
+    let next = 0
+    const type = new Dictionary(new Utf8(), new Int32())
+    return new Table(sizes.map((size) => {
+      const ids = Array.from({ length: size }, () => next++)
+      return new Table({
+        id: vectorFromArray(ids, new Int32()),
+        tag: vectorFromArray(ids.map((id) => (id % 3 === 0 ? null : `t${id % 5}`)), type),
+      }).batches[0]!
+    }))
+  }
+
+  async function mergeTables(tables: Table[], arrow: ArrowOptions): Promise<Table> {
+    const pass = new PassThrough()
+    const outPromise = collectToBuffer(pass)
+    await mergeArrow({
+      inputs: tables.map((t) => Readable.from([Buffer.from(tableToIPC(t, 'stream'))])),
+      output: pass,
+      arrow,
+    })
+    return tableFromIPC(await outPromise)
+  }
+
+  it('coalesces small batches and slices large ones to targetBatchRows', async () => {
+    const inputs = [batchedTable(3, 3, 3, 25), batchedTable(2, 1, 1)]
+    const merged = await mergeTables(inputs, { targetBatchRows: 8 })
+
+    expect(merged.batches.map((b) => b.numRows)).toEqual([8, 8, 8, 8, 6])
+    const expected = inputs.flatMap((t) => t.toArray().map((row) => row.toJSON()))
+    expect(merged.toArray().map((row) => row.toJSON())).toEqual(expected)
+  })
+
+  it('coalesces batches without losing 64-bit values, nulls, nested data or narrow dictionary indices', async () => {
+    const table = (stamps: bigint[], flags: (boolean | null)[], lists: (bigint[] | null)[], tags: string[]) => new Table({
+      t: makeVector(makeData({ type: new TimestampNanosecond(), data: BigInt64Array.from(stamps) })),
+      flag: vectorFromArray(flags, new Bool()),
+      list: vectorFromArray(lists, new List(new Field('item', new Int64()))),
+      tag: vectorFromArray(tags, new Dictionary(new Utf8(), new Int8())),
+    })
+    const inputs = [
+      table([1700000000123456789n], [true], [[9007199254740993n]], ['x']),
+      table([1700000000987654321n, -1n], [null, false], [null, [1n, 2n]], ['y', 'z']),
+    ]
+    const merged = await mergeTables(inputs, { targetBatchRows: 10 })
+
+    expect(merged.batches.map((b) => b.numRows)).toEqual([3])
+    expect([...merged.getChild('t')!.data[0]!.values]).toEqual([1700000000123456789n, 1700000000987654321n, -1n])
+    expect(merged.getChild('flag')!.toArray()).toEqual([true, null, false])
+    expect(merged.getChild('list')!.toArray().map((list: Vector | null) => list && [...list])).toEqual([[9007199254740993n], null, [1n, 2n]])
+    expect([...merged.getChild('tag')!]).toEqual(['x', 'y', 'z'])
+  })
+
+  it('caps batch sizes with maxBatchBytes', async () => {
+    const input = new Table({ x: vectorFromArray(Array.from({ length: 100 }, (_, i) => i), new Float64()) })
+    const merged = await mergeTables([input, input], { maxBatchBytes: 200 })
+
+    expect(merged.batches.map((b) => b.numRows)).toEqual(Array(8).fill(25))
+    expect(merged.numRows).toBe(200)
+  })
+
+  it('rejects non-positive sizes', async () => {
+    await expect(
+      mergeArrow({ inputs: [Readable.from([])], output: new PassThrough(), arrow: { targetBatchRows: 0 } }),
+    ).rejects.toThrow(/arrow.targetBatchRows must be a positive integer/)
+  })
+})
+
+describe('mergeArrow result', () => {
+  it('reports rows, batches and the output schema', async () => {
+    const t1 = new Table({ a: vectorFromArray([1, 2, 3], new Int32()) })
+    const t2 = new Table({ a: vectorFromArray([4], new Int32()) })
+    const pass = new PassThrough()
+    const outBuffer = collectToBuffer(pass)
+
+    const result = await mergeArrow({
+      inputs: [t1, t2].map((t) => Readable.from([Buffer.from(tableToIPC(t, 'stream'))])),
+      output: pass,
+      arrow: { targetBatchRows: 2 },
+    })
+
+    const out = await outBuffer
+    expect(result.rows).toBe(4)
+    expect(result.batches).toBe(2)
+    expect(result.inputs.map(({ rows, batches }) => [rows, batches])).toEqual([[3, 1], [1, 1]])
+    expect(result.schema!.fields.map((f) => `${f.name}:${f.type}`)).toEqual(['a:Int32'])
+    expect(result.mergedBytes).toBe(out.length)
+  })
+})
@@ -1,4 +1,5 @@
-import { PassThrough } from 'node:stream'
+import { PassThrough, Readable } from 'node:stream'
+import { setTimeout as sleep } from 'node:timers/promises'
 import { describe, it, expect } from 'vitest'
 import { mergeCsv } from '../src/mergeCsv.js'
 import { mergeStreamsFromUrls } from '../src/mergeStreams.js'
@@ -93,10 +94,227 @@ describe('mergeStreamsFromUrls CSV (http URLs -> Writable)', () => {
     }
   })
 
-  it('rejects non-http inputs', async () => {
+  it('rejects urls with unsupported schemes', async () => {
     const pass = new PassThrough()
-    await expect(mergeStreamsFromUrls('CSV', { urls: ['file:///tmp/a.csv'], output: pass })).rejects.toThrow(
-      /Expected http\(s\) URL/,
+    await expect(mergeStreamsFromUrls('CSV', { urls: ['ftp://example.com/a.csv'], output: pass })).rejects.toThrow(
+      /Unsupported URL scheme in input 0 \('ftp:'\)/,
     )
   })
 })
+
+describe('mergeCsv quoted records', () => {
+  it('deduplicates a header whose quoted field spans lines', async () => {
+    const header = '"first\nname",b'
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    await mergeCsv({
+      inputs: [
+        Readable.from([`${header}\r\n1,"x\r\ny"\r\n`]),
+        Readable.from([`${header}\n2,"say ""hi"""\n`]),
+      ],
+      output: pass,
+    })
+
+    expect(await outPromise).toBe(`${header}\n1,"x\r\ny"\n2,"say ""hi"""\n`)
+  })
+
+  it('keeps records intact when quotes and line breaks straddle chunk boundaries', async () => {
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    await mergeCsv({
+      inputs: [
+        Readable.from(['a,b\n1,"multi', '\nline ""quo', 'ted"""\n2,', '3\r', '\n']),
+        Readable.from(['a,b\n4,"', '5"']),
+      ],
+      output: pass,
+    })
+
+    expect(await outPromise).toBe('a,b\n1,"multi\nline ""quoted"""\n2,3\n4,"5"\n')
+  })
+
+  it('keeps a quote inside an unquoted field as a literal character', async () => {
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    await mergeCsv({
+      inputs: [
+        Readable.from(['a,b\n1,5\'10', '" tall\n']),
+        // Fields are parsed to reorder them: only the quote opening a field starts a quoted field.
+        Readable.from(['b,a\n"x"', '",y",2 "in\n']),
+      ],
+      output: pass,
+      csv: { headerMismatch: 'reorder' },
+    })
+
+    expect(await outPromise).toBe('a,b\n1,5\'10" tall\n"2 ""in","x"",y"\n')
+  })
+
+  it('fails on an unterminated quoted field at the end of an input', async () => {
+    await expect(
+      mergeCsv({
+        inputs: [Readable.from(['a,b\n1,2\n']), Readable.from(['a,b\n3,"unterminated\n4,5\n'])],
+        output: new PassThrough(),
+      }),
+    ).rejects.toThrow(/Unterminated quoted field at end of input 1/)
+  })
+})
+
+describe('mergeCsv dialect options', () => {
+  it('strips a BOM from every input so repeated headers are still deduplicated', async () => {
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    await mergeCsv({
+      inputs: [Readable.from(['\uFEFFa,b\n1,2\n']), Readable.from(['\uFEFF', 'a,b\n3,4\n'])],
+      output: pass,
+    })
+
+    expect(await outPromise).toBe('a,b\n1,2\n3,4\n')
+  })
+
+  it('emits a single BOM and CRLF line terminators when requested', async () => {
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    await mergeCsv({
+      inputs: [Readable.from(['\uFEFFa;b\n1;2\n']), Readable.from(['\uFEFFa;b\n3;"4\n5"\n'])],
+      output: pass,
+      csv: { delimiter: ';', emitBom: true, lineTerminator: '\r\n' },
+    })
+
+    expect(await outPromise).toBe('\uFEFFa;b\r\n1;2\r\n3;"4\n5"\r\n')
+  })
+
+  it('treats quotes as literal characters when quote handling is disabled', async () => {
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    await mergeCsv({
+      inputs: [Readable.from(['a\tb\n5" pipe\tx\n']), Readable.from(['a\tb\n6\ty\n'])],
+      output: pass,
+      csv: { delimiter: '\t', quote: false },
+    })
+
+    expect(await outPromise).toBe('a\tb\n5" pipe\tx\n6\ty\n')
+  })
+
+  it('rejects invalid dialect options', async () => {
+    await expect(
+      mergeCsv({ inputs: [Readable.from(['a\n'])], output: new PassThrough(), csv: { delimiter: ',,' } }),
+    ).rejects.toThrow(/csv.delimiter must be a single character/)
+    await expect(
+      mergeCsv({ inputs: [Readable.from(['a\n'])], output: new PassThrough(), csv: { delimiter: ';', quote: ';' } }),
+    ).rejects.toThrow(/csv.quote must be a single character/)
+  })
+})
+
+describe('mergeStreamsFromUrls TSV (http URLs -> Writable)', () => {
+  it('merges tsv chunks and deduplicates headers', async () => {
+    const routes = new Map<string, string>([
+      ['/t0.tsv', 'a\tb\n1\t2\n'],
+      ['/t1.tsv', 'a\tb\n3\t4\n'],
+    ])
+
+    const { baseUrl, close } = await createLocalHttpServer(routes, {
+      contentType: 'text/tab-separated-values; charset=utf-8',
+    })
+    const urls = [`${baseUrl}/t0.tsv`, `${baseUrl}/t1.tsv`]
+
+    try {
+      const pass = new PassThrough()
+      const outPromise = collectToString(pass)
+
+      await mergeStreamsFromUrls('TSV', { urls, output: pass })
+
+      expect(await outPromise).toBe('a\tb\n1\t2\n3\t4\n')
+    } finally {
+      await close()
+    }
+  })
+})
+
+describe('mergeCsv header mismatch policies', () => {
+  async function merge(chunks: string[], headerMismatch: 'passthrough' | 'error' | 'reorder' | 'union') {
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+    await mergeCsv({ inputs: chunks.map((c) => Readable.from([c])), output: pass, csv: { headerMismatch } })
+    return outPromise
+  }
+
+  it('writes a differing header as a data row with passthrough (default)', async () => {
+    expect(await merge(['a,b\n1,2\n', 'b,a\n4,3\n'], 'passthrough')).toBe('a,b\n1,2\nb,a\n4,3\n')
+  })
+
+  it('fails on a differing header with error', async () => {
+    await expect(merge(['a,b\n1,2\n', 'b,a\n4,3\n'], 'error')).rejects.toThrow(
+      /Header of input 1 does not match the first input's header: expected \[a, b\], got \[b, a\]/,
+    )
+  })
+
+  it('maps columns to the first header order with reorder', async () => {
+    expect(await merge(['a,b,c\n1,2,3\n', 'c,a,b\n6,4,"5,5"\n', 'a,b,c\n7,8,9\n'], 'reorder')).toBe(
+      'a,b,c\n1,2,3\n4,"5,5",6\n7,8,9\n',
+    )
+  })
+
+  it('treats a header differing only in quoting as the same header with reorder', async () => {
+    expect(await merge(['a,b\n1,2\n', '"a","b"\n3,4\n'], 'reorder')).toBe('a,b\n1,2\n3,4\n')
+  })
+
+  it('fails with reorder when the column sets differ', async () => {
+    await expect(merge(['a,b\n1,2\n', 'a,c\n3,4\n'], 'reorder')).rejects.toThrow(/Header of input 1 does not match/)
+  })
+
+  it('emits the union of columns and fills missing cells with union', async () => {
+    expect(await merge(['a,b\n1,2\n', 'b,c\n3,4\n', '', 'c,a\n5,6\n'], 'union')).toBe(
+      'a,b,c\n1,2,\n,3,4\n6,,5\n',
+    )
+  })
+
+  it('keeps repeated column names apart with union', async () => {
+    expect(await merge(['a,a\n1,2\n', 'a,b\n3,4\n'], 'union')).toBe('a,a,b\n1,2,\n3,,4\n')
+  })
+})
+
+describe('mergeCsv result', () => {
+  it('summarizes the merge', async () => {
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    const result = await mergeCsv({
+      inputs: [Readable.from(['a,b\n1,2\n3,4\n']), Readable.from(['']), Readable.from(['a,b\n5,6\n'])],
+      output: pass,
+    })
+
+    expect(await outPromise).toBe('a,b\n1,2\n3,4\n5,6\n')
+    expect(result).toMatchObject({
+      header: ['a', 'b'],
+      rows: 3,
+      inputedBytes: 20,
+      mergedBytes: 16,
+      compressedInputBytes: 0,
+      compressedMergedBytes: 0,
+      skipped: [],
+      inputs: [
+        { inputIndex: 0, inputedBytes: 12, rows: 2 },
+        { inputIndex: 1, inputedBytes: 0, rows: 0 },
+        { inputIndex: 2, inputedBytes: 8, rows: 1 },
+      ],
+    })
+    expect(result.inputs[0]).not.toHaveProperty('batches')
+    expect(result.elapsedMs).toBeGreaterThanOrEqual(0)
+    expect(result.inputs.every(({ elapsedMs }) => elapsedMs >= 0)).toBe(true)
+  })
+
+  it('ends the elapsed time of an input when its merge returns, before the next input opens', async () => {
+    const result = await mergeCsv({
+      inputs: [Readable.from(['a\n1\n']), async () => (await sleep(300), Readable.from(['a\n2\n']))],
+      output: new PassThrough().resume(),
+    })
+
+    expect(result.inputs[0]!.elapsedMs).toBeLessThan(200)
+    expect(result.elapsedMs).toBeGreaterThanOrEqual(290)
+  })
+})
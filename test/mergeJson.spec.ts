@@ -1,4 +1,4 @@
-import { PassThrough } from 'node:stream'
+import { PassThrough, Readable } from 'node:stream'
 import { describe, it, expect } from 'vitest'
 import { mergeJson } from '../src/mergeJson.js'
 import { mergeStreamsFromUrls } from '../src/mergeStreams.js'
@@ -96,10 +96,28 @@ describe('mergeStreamsFromUrls JSON_ARRAY (http URLs -> Writable)', () => {
     }
   })
 
-  it('rejects non-http inputs', async () => {
+  it('rejects urls with unsupported schemes', async () => {
     const pass = new PassThrough()
-    await expect(mergeStreamsFromUrls('JSON_ARRAY', { urls: ['file:///tmp/a.json'], output: pass })).rejects.toThrow(
-      /Expected http\(s\) URL/,
+    await expect(mergeStreamsFromUrls('JSON_ARRAY', { urls: ['ftp://example.com/a.json'], output: pass })).rejects.toThrow(
+      /Unsupported URL scheme in input 0 \('ftp:'\)/,
     )
   })
 })
+
+describe('mergeJson result', () => {
+  it('counts the elements merged from each input', async () => {
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    const result = await mergeJson({
+      inputs: [Readable.from(['[{"a":[1,2]},2]']), Readable.from(['[]']), Readable.from(['[ 3 ]'])],
+      output: pass,
+    })
+
+    expect(await outPromise).toBe('[{"a":[1,2]},2,3]')
+    expect(result.rows).toBe(3)
+    expect(result.inputs.map(({ rows }) => rows)).toEqual([2, 0, 1])
+    expect(result.inputs.map(({ inputedBytes }) => inputedBytes)).toEqual([15, 2, 5])
+    expect(result.mergedBytes).toBe(17)
+  })
+})
@@ -0,0 +1,64 @@
+import { PassThrough, Readable } from 'node:stream'
+import { describe, it, expect } from 'vitest'
+import { mergeJsonLines } from '../src/mergeJsonLines.js'
+import { mergeStreams, mergeStreamsFromUrls } from '../src/mergeStreams.js'
+import { collectToString, createLocalHttpServer } from './testUtil.js'
+
+describe('mergeJsonLines (Readable[] -> Writable)', () => {
+  it('normalizes line endings, blank lines and missing trailing newlines', async () => {
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    await mergeJsonLines({
+      inputs: [
+        Readable.from(['{"a":1}\r\n\r\n{"a', '":2}']),
+        Readable.from(['\n  \n']),
+        Readable.from(['{"a":3}\n']),
+      ],
+      output: pass,
+    })
+
+    expect(await outPromise).toBe('{"a":1}\n{"a":2}\n{"a":3}\n')
+  })
+
+  it('merges JSON Lines from URLs', async () => {
+    const routes = new Map<string, string>([
+      ['/l0.jsonl', '{"a":1}\n{"a":2}\n'],
+      ['/l1.jsonl', '{"a":3}'],
+    ])
+
+    const { baseUrl, close } = await createLocalHttpServer(routes, {
+      contentType: 'application/x-ndjson',
+    })
+
+    try {
+      const pass = new PassThrough()
+      const outPromise = collectToString(pass)
+
+      await mergeStreamsFromUrls('JSON_LINES', { urls: [...routes.keys()].map((p) => `${baseUrl}${p}`), output: pass })
+
+      expect(await outPromise).toBe('{"a":1}\n{"a":2}\n{"a":3}\n')
+    } finally {
+      await close()
+    }
+  })
+})
+
+describe('JSON_ARRAY -> JSON_LINES', () => {
+  it('writes one compacted element per line', async () => {
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    await mergeStreams('JSON_ARRAY', {
+      inputs: [
+        Readable.from(['[\n  {\n    "a": "x, y\\n"', ',\n    "b": [1, 2]\n  },\n  [3]\n]\n']),
+        Readable.from(['[]']),
+        Readable.from(['[4, "five"]']),
+      ],
+      output: pass,
+      outputFormat: 'JSON_LINES',
+    })
+
+    expect(await outPromise).toBe('{"a":"x, y\\n","b":[1,2]}\n[3]\n4\n"five"\n')
+  })
+})
@@ -0,0 +1,1002 @@
+import { PassThrough, Readable } from 'node:stream'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { gzipSync } from 'node:zlib'
+import {
+  DateDay,
+  Decimal,
+  Dictionary,
+  Int32,
+  Int64,
+  makeData,
+  makeVector,
+  Table,
+  tableFromIPC,
+  tableToIPC,
+  TimestampMicrosecond,
+  Utf8,
+  vectorFromArray,
+} from 'apache-arrow'
+import { describe, it, expect } from 'vitest'
+import { ParseError, SchemaError, TimeoutError } from '../src/errors.js'
+import { mergeStreams, mergeStreamsFromUrls } from '../src/mergeStreams.js'
+import { openUrlAsReadable } from '../src/util.js'
+import type { MergeFormat, MergeOptions, MergeOptionsProgress } from '../src/types.js'
+import type { RouteHandler } from './testUtil.js'
+import { collectToBuffer, collectToString, createLocalHttpServer, sendBody } from './testUtil.js'
+
+describe('mergeStreams prefetch', () => {
+  function trackedInputs(count: number) {
+    const opened: number[] = []
+    const openedWhileFirstStreams: number[] = []
+    const inputs = Array.from({ length: count }, (_, i) => async () => {
+      opened.push(i)
+      await sleep(5)
+      return Readable.from((async function* () {
+        if (i === 0) {
+          await sleep(30)
+          openedWhileFirstStreams.push(opened.length)
+        }
+        yield `[${i}]`
+      })())
+    })
+    return { inputs, openedWhileFirstStreams }
+  }
+
+  it('opens upcoming inputs ahead of time while preserving output order', async () => {
+    const { inputs, openedWhileFirstStreams } = trackedInputs(4)
+
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    await mergeStreams('JSON_ARRAY', { inputs, output: pass, prefetch: 2 })
+
+    expect(JSON.parse(await outPromise)).toEqual([0, 1, 2, 3])
+    expect(openedWhileFirstStreams).toEqual([3])
+  })
+
+  it('does not open inputs ahead of time by default', async () => {
+    const { inputs, openedWhileFirstStreams } = trackedInputs(2)
+
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    await mergeStreams('JSON_ARRAY', { inputs, output: pass })
+
+    expect(JSON.parse(await outPromise)).toEqual([0, 1])
+    expect(openedWhileFirstStreams).toEqual([1])
+  })
+
+  it('destroys prefetched streams when an input fails', async () => {
+    const prefetched = new PassThrough()
+    const inputs = [
+      () => Readable.from(['not json']),
+      () => prefetched,
+    ]
+
+    await expect(mergeStreams('JSON_ARRAY', { inputs, output: new PassThrough(), prefetch: 1 })).rejects.toThrow(
+      /Expected JSON array input/,
+    )
+    await sleep(0)
+    expect(prefetched.destroyed).toBe(true)
+  })
+
+  it('merges url inputs with prefetch enabled', async () => {
+    const routes = new Map<string, string>([
+      ['/c0.csv', 'a,b\n1,2\n'],
+      ['/c1.csv', 'a,b\n3,4\n'],
+      ['/c2.csv', 'a,b\n5,6\n'],
+    ])
+
+    const { baseUrl, close } = await createLocalHttpServer(routes, {
+      contentType: 'text/csv; charset=utf-8',
+    })
+    const urls = [...routes.keys()].map((p) => `${baseUrl}${p}`)
+
+    try {
+      const pass = new PassThrough()
+      const outPromise = collectToString(pass)
+
+      await mergeStreamsFromUrls('CSV', { urls, output: pass, prefetch: 2 })
+
+      expect(await outPromise).toBe('a,b\n1,2\n3,4\n5,6\n')
+    } finally {
+      await close()
+    }
+  })
+
+  it('cancels prefetched url bodies that were never read', async () => {
+    const closed: string[] = []
+    // The prefetched bodies stream until the server drops their connection.
+    const streaming: RouteHandler = (req, res) => {
+      res.on('close', () => closed.push(req.url!))
+      res.writeHead(200)
+      res.write('[1,2')
+      setTimeout(() => res.socket?.destroy(), 200)
+    }
+    const { baseUrl, close } = await createLocalHttpServer(new Map<string, string | RouteHandler>([
+      ['/0', 'oops'],
+      ['/1', streaming],
+      ['/2', streaming],
+    ]))
+    const urls = ['/0', '/1', '/2'].map((path) => `${baseUrl}${path}`)
+
+    try {
+      await expect(mergeStreamsFromUrls('JSON_ARRAY', { urls, output: new PassThrough(), prefetch: 2 })).rejects.toThrow(
+        /Expected JSON array input/,
+      )
+      await sleep(50)
+      expect(closed.sort()).toEqual(['/1', '/2'])
+
+      closed.length = 0
+      const pass = new PassThrough()
+      const outPromise = collectToString(pass)
+      await mergeStreamsFromUrls('JSON_ARRAY', {
+        urls: [`${baseUrl}/1`, ...urls.slice(1)], output: pass, prefetch: 2, limit: 1, retry: { baseDelayMs: 1 },
+      })
+      expect(await outPromise).toBe('[1]')
+      await sleep(50)
+      expect(closed.sort()).toEqual(['/1', '/1', '/2'])
+      // Connections the server drops later surface nowhere.
+      await sleep(200)
+    } finally {
+      await close()
+    }
+  })
+
+  it('rejects an invalid prefetch value', async () => {
+    await expect(
+      mergeStreams('CSV', { inputs: [Readable.from(['a\n'])], output: new PassThrough(), prefetch: -1 }),
+    ).rejects.toThrow(/prefetch must be a non-negative integer/)
+  })
+})
+
+describe('mergeStreamsFromUrls retry', () => {
+  const retry = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 5 }
+
+  it('retries retryable status codes before the body starts', async () => {
+    let calls = 0
+    const routes = new Map<string, string | RouteHandler>([
+      ['/c0.csv', 'a,b\n1,2\n'],
+      ['/c1.csv', (req, res) => {
+        calls += 1
+        if (calls < 3) {
+          res.statusCode = 503
+          res.end('unavailable')
+          return
+        }
+        sendBody(req, res, 'a,b\n3,4\n')
+      }],
+    ])
+
+    const { baseUrl, close } = await createLocalHttpServer(routes)
+    const urls = [`${baseUrl}/c0.csv`, `${baseUrl}/c1.csv`]
+
+    try {
+      const pass = new PassThrough()
+      const outPromise = collectToString(pass)
+
+      await mergeStreamsFromUrls('CSV', { urls, output: pass, retry })
+
+      expect(await outPromise).toBe('a,b\n1,2\n3,4\n')
+      expect(calls).toBe(3)
+    } finally {
+      await close()
+    }
+  })
+
+  it('gives up after maxAttempts', async () => {
+    let calls = 0
+    const routes = new Map<string, RouteHandler>([
+      ['/c0.csv', (_req, res) => {
+        calls += 1
+        res.statusCode = 503
+        res.end('unavailable')
+      }],
+    ])
+
+    const { baseUrl, close } = await createLocalHttpServer(routes)
+
+    try {
+      await expect(
+        mergeStreamsFromUrls('CSV', { urls: [`${baseUrl}/c0.csv`], output: new PassThrough(), retry }),
+      ).rejects.toThrow(/503/)
+      expect(calls).toBe(3)
+    } finally {
+      await close()
+    }
+  })
+
+  it('does not retry non-retryable status codes', async () => {
+    const { baseUrl, close } = await createLocalHttpServer(new Map())
+
+    try {
+      await expect(
+        mergeStreamsFromUrls('CSV', { urls: [`${baseUrl}/missing.csv`], output: new PassThrough(), retry }),
+      ).rejects.toThrow(/404/)
+    } finally {
+      await close()
+    }
+  })
+
+  it('resumes an interrupted body with a Range request without duplicating bytes', async () => {
+    const body = `[${Array.from({ length: 2000 }, (_, i) => i).join(',')}]`
+    const ranges: (string | undefined)[] = []
+    const routes = new Map<string, RouteHandler>([
+      ['/j0.json', (req, res) => {
+        ranges.push(req.headers.range)
+        if (ranges.length === 1) {
+          res.writeHead(200, { 'content-length': Buffer.byteLength(body) })
+          res.write(body.slice(0, 1000), () => res.destroy())
+          return
+        }
+        sendBody(req, res, body)
+      }],
+    ])
+
+    const { baseUrl, close } = await createLocalHttpServer(routes)
+
+    try {
+      const pass = new PassThrough()
+      const outPromise = collectToString(pass)
+
+      await mergeStreamsFromUrls('JSON_ARRAY', { urls: [`${baseUrl}/j0.json`], output: pass, retry })
+
+      expect(await outPromise).toBe(body)
+      expect(ranges).toEqual([undefined, 'bytes=1000-'])
+    } finally {
+      await close()
+    }
+  })
+
+  it('skips already consumed bytes when the server ignores Range', async () => {
+    const body = `[${Array.from({ length: 2000 }, (_, i) => i).join(',')}]`
+    let calls = 0
+    const routes = new Map<string, RouteHandler>([
+      ['/j0.json', (_req, res) => {
+        calls += 1
+        res.writeHead(200, { 'content-length': Buffer.byteLength(body) })
+        if (calls === 1) {
+          res.write(body.slice(0, 1000), () => res.destroy())
+          return
+        }
+        res.end(body)
+      }],
+    ])
+
+    const { baseUrl, close } = await createLocalHttpServer(routes)
+
+    try {
+      const pass = new PassThrough()
+      const outPromise = collectToString(pass)
+
+      await mergeStreamsFromUrls('JSON_ARRAY', { urls: [`${baseUrl}/j0.json`], output: pass, retry })
+
+      expect(await outPromise).toBe(body)
+      expect(calls).toBe(2)
+    } finally {
+      await close()
+    }
+  })
+
+  it('fails on an interrupted body when retry is not configured', async () => {
+    const routes = new Map<string, RouteHandler>([
+      ['/j0.json', (_req, res) => {
+        res.writeHead(200, { 'content-length': 100 })
+        res.write('[1,2,', () => res.destroy())
+      }],
+    ])
+
+    const { baseUrl, close } = await createLocalHttpServer(routes)
+
+    try {
+      await expect(
+        mergeStreamsFromUrls('JSON_ARRAY', { urls: [`${baseUrl}/j0.json`], output: new PassThrough() }),
+      ).rejects.toThrow()
+    } finally {
+      await close()
+    }
+  })
+})
+
+describe('mergeStreamsFromUrls url resolvers', () => {
+  const expired: RouteHandler = (_req, res) => {
+    res.statusCode = 403
+    res.end('<Error><Code>AccessDenied</Code><Message>Request has expired</Message></Error>')
+  }
+
+  it('resolves urls when opened and refreshes expired ones', async () => {
+    const routes = new Map<string, string | RouteHandler>([
+      ['/c0.csv?sig=1', 'a,b\n1,2\n'],
+      ['/c1.csv?sig=1', expired],
+      ['/c1.csv?sig=2', (req, res) => {
+        res.statusCode = 400
+        res.end('<Error><Code>ExpiredToken</Code><Message>The provided token has expired.</Message></Error>')
+      }],
+      ['/c1.csv?sig=3', 'a,b\n3,4\n'],
+    ])
+
+    const { baseUrl, close } = await createLocalHttpServer(routes)
+    let signatures = 0
+    const resolver = async () => `${baseUrl}/c1.csv?sig=${++signatures}`
+
+    try {
+      const pass = new PassThrough()
+      const outPromise = collectToString(pass)
+
+      await mergeStreamsFromUrls('CSV', { urls: [`${baseUrl}/c0.csv?sig=1`, resolver], output: pass })
+
+      expect(await outPromise).toBe('a,b\n1,2\n3,4\n')
+      expect(signatures).toBe(3)
+    } finally {
+      await close()
+    }
+  })
+
+  it('keeps the headers of resolved Requests', async () => {
+    const routes = new Map<string, RouteHandler>([
+      ['/c0.csv', (req, res) => (req.headers['x-token'] === 'fresh' ? sendBody(req, res, 'a\n1\n') : expired(req, res))],
+    ])
+
+    const { baseUrl, close } = await createLocalHttpServer(routes)
+    const tokens = ['stale', 'fresh']
+
+    try {
+      const pass = new PassThrough()
+      const outPromise = collectToString(pass)
+
+      await mergeStreamsFromUrls('CSV', {
+        urls: [async () => new Request(`${baseUrl}/c0.csv`, { headers: { 'x-token': tokens.shift()! } })],
+        output: pass,
+      })
+
+      expect(await outPromise).toBe('a\n1\n')
+    } finally {
+      await close()
+    }
+  })
+
+  it('refreshes an expired url while resuming an interrupted body', async () => {
+    const body = `[${Array.from({ length: 2000 }, (_, i) => i).join(',')}]`
+    const requests: string[] = []
+    const routes = new Map<string, RouteHandler>([
+      ['/j0.json?sig=1', (req, res) => {
+        requests.push(`${req.url} ${req.headers.range}`)
+        if (req.headers.range) return expired(req, res)
+        res.writeHead(200, { 'content-length': Buffer.byteLength(body) })
+        res.write(body.slice(0, 1000), () => res.destroy())
+      }],
+      ['/j0.json?sig=2', (req, res) => {
+        requests.push(`${req.url} ${req.headers.range}`)
+        sendBody(req, res, body)
+      }],
+    ])
+
+    const { baseUrl, close } = await createLocalHttpServer(routes)
+    let signatures = 0
+
+    try {
+      const pass = new PassThrough()
+      const outPromise = collectToString(pass)
+
+      await mergeStreamsFromUrls('JSON_ARRAY', {
+        urls: [async () => `${baseUrl}/j0.json?sig=${++signatures}`],
+        output: pass,
+        retry: { baseDelayMs: 1 },
+      })
+
+      expect(await outPromise).toBe(body)
+      expect(requests).toEqual(['/j0.json?sig=1 undefined', '/j0.json?sig=1 bytes=1000-', '/j0.json?sig=2 bytes=1000-'])
+    } finally {
+      await close()
+    }
+  })
+
+  it('gives up after maxRefreshes and does not refresh plain urls', async () => {
+    let calls = 0
+    const routes = new Map<string, RouteHandler>([
+      ['/c0.csv', (req, res) => {
+        calls += 1
+        expired(req, res)
+      }],
+    ])
+
+    const { baseUrl, close } = await createLocalHttpServer(routes)
+
+    try {
+      await expect(
+        mergeStreamsFromUrls('CSV', { urls: [async () => `${baseUrl}/c0.csv`], output: new PassThrough(), maxRefreshes: 2 }),
+      ).rejects.toThrow(/403/)
+      expect(calls).toBe(3)
+
+      await expect(
+        mergeStreamsFromUrls('CSV', { urls: [`${baseUrl}/c0.csv`], output: new PassThrough() }),
+      ).rejects.toThrow(/403/)
+      expect(calls).toBe(4)
+    } finally {
+      await close()
+    }
+  })
+})
+
+describe('timeouts', () => {
+  /** A stream that sends `chunks`, then neither sends more nor ends */
+  const stalled = (chunks: string[]) => {
+    const stream = new Readable({ read() {} })
+    for (const chunk of chunks) stream.push(chunk)
+    return stream
+  }
+
+  it('fails a url that does not respond within connectTimeoutMs, unless a retry succeeds', async () => {
+    let calls = 0
+    const routes = new Map<string, string | RouteHandler>([
+      ['/c0.csv', 'a\n1\n'],
+      ['/c1.csv', (req, res) => {
+        calls += 1
+        if (calls > 1) sendBody(req, res, 'a\n2\n')
+      }],
+    ])
+    const { baseUrl, server, close } = await createLocalHttpServer(routes)
+    const urls = [`${baseUrl}/c0.csv`, `${baseUrl}/c1.csv`]
+
+    try {
+      const error = await mergeStreamsFromUrls('CSV', { urls, output: new PassThrough(), connectTimeoutMs: 50 }).catch((e: unknown) => e)
+      expect(error).toBeInstanceOf(TimeoutError)
+      expect(error).toMatchObject({ timeout: 'connect', timeoutMs: 50, inputIndex: 1, url: urls[1] })
+
+      calls = 0
+      const pass = new PassThrough()
+      const outPromise = collectToString(pass)
+      await mergeStreamsFromUrls('CSV', { urls, output: pass, connectTimeoutMs: 50, retry: { baseDelayMs: 1 } })
+      expect(await outPromise).toBe('a\n1\n2\n')
+    } finally {
+      server.closeAllConnections()
+      await close()
+    }
+  })
+
+  it('resumes a url body that stalls for idleTimeoutMs', async () => {
+    const body = `[${Array.from({ length: 2000 }, (_, i) => i).join(',')}]`
+    const ranges: (string | undefined)[] = []
+    const routes = new Map<string, RouteHandler>([
+      ['/j0.json', (req, res) => {
+        ranges.push(req.headers.range)
+        if (ranges.length === 1) {
+          res.writeHead(200, { 'content-length': Buffer.byteLength(body) })
+          res.write(body.slice(0, 1000))
+          return
+        }
+        sendBody(req, res, body)
+      }],
+    ])
+    const { baseUrl, server, close } = await createLocalHttpServer(routes)
+    const urls = [`${baseUrl}/j0.json`]
+
+    try {
+      const error = await mergeStreamsFromUrls('JSON_ARRAY', { urls, output: new PassThrough(), idleTimeoutMs: 50 }).catch((e: unknown) => e)
+      expect(error).toMatchObject({ name: 'TimeoutError', timeout: 'idle', inputIndex: 0, byteOffset: 1000 })
+
+      ranges.length = 0
+      const pass = new PassThrough()
+      const outPromise = collectToString(pass)
+      await mergeStreamsFromUrls('JSON_ARRAY', { urls, output: pass, idleTimeoutMs: 50, retry: { baseDelayMs: 1 } })
+      expect(await outPromise).toBe(body)
+      expect(ranges).toEqual([undefined, 'bytes=1000-'])
+    } finally {
+      server.closeAllConnections()
+      await close()
+    }
+  })
+
+  it('fails a stream input that sends no data for idleTimeoutMs', async () => {
+    const error = await mergeStreams('JSON_LINES', {
+      inputs: [Readable.from(['{"a":1}\n']), stalled(['{"a":2}\n'])],
+      output: new PassThrough(),
+      idleTimeoutMs: 50,
+    }).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(TimeoutError)
+    expect(error).toMatchObject({ timeout: 'idle', inputIndex: 1, byteOffset: 8 })
+    expect((error as Error).message).toBe('[mergeJsonLines] No data received from input 1 for 50 ms')
+  })
+
+  it('fails the merge at deadlineMs, even when failed inputs are skipped', async () => {
+    const error = await mergeStreams('CSV', {
+      inputs: [Readable.from(['a\n1\n']), () => new Promise<Readable>(() => { /* never opens */ }), stalled(['a\n3\n'])],
+      output: new PassThrough(),
+      deadlineMs: 100,
+      onInputError: 'skip',
+    }).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(TimeoutError)
+    expect(error).toMatchObject({ timeout: 'deadline', timeoutMs: 100, inputIndex: 1 })
+    expect((error as Error).message).toBe('[mergeCsv] Deadline of 100 ms exceeded while opening input 1')
+  })
+
+  it('rejects timeouts that are not positive numbers', async () => {
+    await expect(mergeStreams('CSV', { inputs: [Readable.from(['a\n'])], output: new PassThrough(), deadlineMs: 0 }))
+      .rejects.toThrow('[mergeCsv] deadlineMs must be a positive number')
+    await expect(mergeStreamsFromUrls('CSV', { urls: ['http://127.0.0.1:1/'], output: new PassThrough(), connectTimeoutMs: -1 }))
+      .rejects.toThrow('connectTimeoutMs must be a positive number')
+  })
+})
+
+describe('mergeStreamsFromUrls request options', () => {
+  it('uses a custom fetch implementation', async () => {
+    const requests: [string, RequestInit | undefined][] = []
+    const fakeFetch = (async (input: string | URL | Request, init?: RequestInit) => {
+      requests.push([String(input), init])
+      return new Response(`a\n${requests.length}\n`)
+    }) as typeof fetch
+
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    await mergeStreamsFromUrls('CSV', { urls: ['https://example.com/c0.csv', 'https://example.com/c1.csv'], output: pass, fetch: fakeFetch })
+
+    expect(await outPromise).toBe('a\n1\n2\n')
+    expect(requests.map(([url, init]) => [url, init?.method, init?.redirect])).toEqual([
+      ['https://example.com/c0.csv', 'GET', 'follow'],
+      ['https://example.com/c1.csv', 'GET', 'follow'],
+    ])
+  })
+
+  it('sends requestInit, static and per-url headers, with later ones taking precedence', async () => {
+    const seen: Record<string, string | undefined>[] = []
+    const handler: RouteHandler = (req, res) => {
+      seen.push({ url: req.url, auth: req.headers.authorization, agent: req.headers['x-agent'], trace: req.headers['x-trace'] })
+      sendBody(req, res, 'a\n1\n')
+    }
+    const routes = new Map<string, RouteHandler>([['/c0.csv', handler], ['/c1.csv', handler]])
+
+    const { baseUrl, close } = await createLocalHttpServer(routes)
+    const urls = [`${baseUrl}/c0.csv`, `${baseUrl}/c1.csv`]
+    const requestInit = { headers: { 'x-agent': 'merge', authorization: 'Bearer init' } }
+
+    try {
+      await mergeStreamsFromUrls('CSV', { urls, output: new PassThrough(), requestInit, headers: { authorization: 'Bearer static' } })
+      await mergeStreamsFromUrls('CSV', {
+        urls,
+        output: new PassThrough(),
+        requestInit,
+        headers: async (url) => ({ 'x-trace': new URL(url).pathname }),
+      })
+
+      expect(seen).toEqual([
+        { url: '/c0.csv', auth: 'Bearer static', agent: 'merge', trace: undefined },
+        { url: '/c1.csv', auth: 'Bearer static', agent: 'merge', trace: undefined },
+        { url: '/c0.csv', auth: 'Bearer init', agent: 'merge', trace: '/c0.csv' },
+        { url: '/c1.csv', auth: 'Bearer init', agent: 'merge', trace: '/c1.csv' },
+      ])
+    } finally {
+      await close()
+    }
+  })
+})
+
+describe('mergeStreams outputFormat', () => {
+  function typedTable(ids: bigint[], offset: number): Table {
+    const decimal = makeData({
+      type: new Decimal(2, 10, 128),
+      length: ids.length,
+      nullCount: 0,
+      data: new Uint32Array(ids.flatMap((id) => [Number(id * 100n + 5n), 0, 0, 0])),
+    })
+    const timestamp = makeData({
+      type: new TimestampMicrosecond(),
+      length: ids.length,
+      nullCount: 0,
+      data: new BigInt64Array(ids.map((id) => 1709600523456789n + id)),
+    })
+    return new Table({
+      id: vectorFromArray(ids.map((id) => id + 9007199254740993n), new Int64()),
+      price: makeVector(decimal),
+      day: vectorFromArray(ids.map((_, i) => new Date(Date.UTC(2024, 2, 5 + offset + i))), new DateDay()),
+      at: makeVector(timestamp),
+      tag: vectorFromArray(ids.map((id) => (id === 1n ? null : `t${id}`)), new Dictionary(new Utf8(), new Int32())),
+    })
+  }
+
+  async function merge(format: MergeFormat, outputFormat: MergeFormat, inputs: (string | Uint8Array)[], extra?: Partial<MergeOptions>): Promise<Buffer> {
+    const pass = new PassThrough()
+    const outPromise = collectToBuffer(pass)
+    outPromise.catch(() => { /* output is destroyed when the merge fails */ })
+    await mergeStreams(format, {
+      inputs: inputs.map((input) => Readable.from([typeof input === 'string' ? input : Buffer.from(input)])),
+      output: pass,
+      outputFormat,
+      ...extra,
+    })
+    return outPromise
+  }
+
+  it('converts Arrow to JSON_ARRAY with lossless Int64, Decimal, Date and Timestamp values', async () => {
+    const bytes = await merge('ARROW_STREAM', 'JSON_ARRAY', [
+      tableToIPC(typedTable([0n, 1n], 0), 'stream'),
+      tableToIPC(typedTable([2n], 2), 'stream'),
+    ])
+
+    expect(JSON.parse(bytes.toString())).toEqual([
+      { id: '9007199254740993', price: '0.05', day: '2024-03-05', at: '2024-03-05T01:02:03.456789Z', tag: 't0' },
+      { id: '9007199254740994', price: '1.05', day: '2024-03-06', at: '2024-03-05T01:02:03.456790Z', tag: null },
+      { id: '9007199254740995', price: '2.05', day: '2024-03-07', at: '2024-03-05T01:02:03.456791Z', tag: 't2' },
+    ])
+  })
+
+  it('converts Arrow to CSV with one header', async () => {
+    const table = new Table({ a: vectorFromArray([1, null], new Int32()), b: vectorFromArray(['x,y', 'z'], new Utf8()) })
+    const bytes = await merge('ARROW_STREAM', 'CSV', [tableToIPC(table, 'stream'), tableToIPC(table, 'stream')])
+
+    expect(bytes.toString()).toBe('a,b\n1,"x,y"\n,z\n1,"x,y"\n,z\n')
+  })
+
+  it('converts CSV to JSON_ARRAY objects keyed by the header', async () => {
+    const bytes = await merge('CSV', 'JSON_ARRAY', ['a,b\n1,"x\ny"\n', 'a,b\n2,\n'])
+
+    expect(JSON.parse(bytes.toString())).toEqual([{ a: '1', b: 'x\ny' }, { a: '2', b: '' }])
+  })
+
+  it('converts JSON_ARRAY objects and positional arrays to CSV', async () => {
+    const objects = await merge('JSON_ARRAY', 'CSV', ['[{"a":1,"b":{"c":[1,2]}}, {"a":"x,y","b":null}]', '[]', '[{"a":true,"b":"z"}]'])
+    expect(objects.toString()).toBe('a,b\n1,"{""c"":[1,2]}"\n"x,y",\ntrue,z\n')
+
+    const arrays = await merge('JSON_ARRAY', 'TSV', ['[["a",1],["b",2]]', '[["c",3]]'])
+    expect(arrays.toString()).toBe('0\t1\na\t1\nb\t2\nc\t3\n')
+  })
+
+  it('converts CSV to ARROW_STREAM as Utf8 columns, honoring arrow options', async () => {
+    const bytes = await merge('CSV', 'ARROW_STREAM', ['a,b\n1,x\n2,y\n', 'a,b\n3,z\n'], { arrow: { targetBatchRows: 2 } })
+
+    const merged = tableFromIPC(bytes)
+    expect(merged.schema.fields.map((f) => `${f.name}:${f.type}`)).toEqual(['a:Utf8', 'b:Utf8'])
+    expect(merged.batches.map((b) => b.numRows)).toEqual([2, 1])
+    expect(merged.toArray().map((row) => row.toJSON())).toEqual([
+      { a: '1', b: 'x' },
+      { a: '2', b: 'y' },
+      { a: '3', b: 'z' },
+    ])
+  })
+
+  it('converts Arrow to JSON_LINES and JSON_LINES to CSV', async () => {
+    const table = new Table({ a: vectorFromArray([1, 2], new Int32()), b: vectorFromArray(['x', null], new Utf8()) })
+    const lines = await merge('ARROW_STREAM', 'JSON_LINES', [tableToIPC(table, 'stream')])
+    expect(lines.toString()).toBe('{"a":1,"b":"x"}\n{"a":2,"b":null}\n')
+
+    const csv = await merge('JSON_LINES', 'CSV', ['{"a":1,"b":"x"}\r\n\n{"a":2}', '{"a":3,"b":"y"}\n'])
+    expect(csv.toString()).toBe('a,b\n1,x\n2,\n3,y\n')
+  })
+
+  it('converts between CSV and TSV', async () => {
+    const bytes = await merge('CSV', 'TSV', ['a,b\n"1\t2",x\n', 'a,b\n3,y\n'])
+    expect(bytes.toString()).toBe('a\tb\n"1\t2"\tx\n3\ty\n')
+  })
+
+  it('counts the bytes and Content-Length of the source, not of the re-encoded input', async () => {
+    const ipc = Buffer.from(tableToIPC(new Table({ a: vectorFromArray([1, 2], new Int32()) }), 'stream'))
+    const gzipped = gzipSync(ipc)
+    const { baseUrl, close } = await createLocalHttpServer(new Map([['/t.arrow', ipc]]))
+
+    try {
+      const output = new PassThrough()
+      const outPromise = collectToString(output)
+      const progress: MergeOptionsProgress[] = []
+      const result = await mergeStreamsFromUrls('ARROW_STREAM', {
+        urls: [`${baseUrl}/t.arrow`],
+        output,
+        outputFormat: 'CSV',
+        onProgress: (p) => progress.push(p),
+        progressIntervalMs: 0,
+      })
+      expect(await outPromise).toBe('a\n1\n2\n')
+      expect(result).toMatchObject({ inputedBytes: ipc.length, inputs: [{ inputedBytes: ipc.length }] })
+      expect(progress[progress.length - 1]).toMatchObject({ inputExpectedBytes: ipc.length, percent: 100 })
+    } finally {
+      await close()
+    }
+
+    const output = new PassThrough()
+    const outPromise = collectToString(output)
+    const result = await mergeStreams('ARROW_STREAM', { inputs: [Readable.from([gzipped])], output, outputFormat: 'CSV' })
+    expect(await outPromise).toBe('a\n1\n2\n')
+    expect(result).toMatchObject({ inputedBytes: ipc.length, compressedInputBytes: gzipped.length })
+  })
+
+  it('fails on JSON array elements that are not rows', async () => {
+    await expect(merge('JSON_ARRAY', 'CSV', ['[1,2]'])).rejects.toThrow(
+      /Expected JSON rows to be objects or arrays in input 0/,
+    )
+    await expect(merge('JSON_ARRAY', 'ARROW_STREAM', ['[{"a":1},[2]]'])).rejects.toThrow(
+      /JSON rows of input 0 must all be objects or all be arrays/,
+    )
+  })
+
+  it('gives all JSON inputs the columns of the first JSON row, failing on the others', async () => {
+    const reordered = await merge('JSON_ARRAY', 'CSV', ['[{"a":1,"b":2}]', '[{"b":3,"a":4}]', '[{"a":5}]'])
+    expect(reordered.toString()).toBe('a,b\n1,2\n4,3\n5,\n')
+
+    await expect(merge('JSON_ARRAY', 'CSV', ['[{"a":1},{"a":2,"b":3}]'])).rejects.toThrow(
+      new ParseError("[mergeStreams] JSON row 1 of input 0 has key 'b', which is not a column of the first JSON row: [a]", { inputIndex: 0 }),
+    )
+    await expect(merge('JSON_LINES', 'CSV', ['{"a":1}\n', '{"b":2}\n'])).rejects.toThrow(
+      /JSON row 0 of input 1 has key 'b', which is not a column of the first JSON row: \[a\]/,
+    )
+    await expect(merge('JSON_LINES', 'CSV', ['[1]\n[2,3]\n'])).rejects.toThrow(
+      /JSON row 1 of input 0 has position '1', which is not a column of the first JSON row: \[0\]/,
+    )
+  })
+
+})
+
+describe('mergeStreams progress', () => {
+  const mergeWithProgress = async (format: MergeFormat, options: Omit<MergeOptions, 'output'>) => {
+    const progress: MergeOptionsProgress[] = []
+    const output = new PassThrough()
+    const outPromise = collectToBuffer(output)
+    await mergeStreams(format, { ...options, output, onProgress: (p) => progress.push(p), progressIntervalMs: 0 })
+    await outPromise
+    return progress
+  }
+
+  it('counts rows and ends at 100 percent', async () => {
+    const progress = await mergeWithProgress('JSON_LINES', {
+      inputs: [Readable.from(['{"a":1}\n{"a":2}\n']), Readable.from(['{"a":3}\n'])],
+    })
+
+    const percents = progress.map(({ percent }) => percent)
+    expect(percents).toEqual([...percents].sort((a, b) => a - b))
+    expect(progress[progress.length - 1]).toMatchObject({ rows: 3, inputRows: 1, percent: 100, etaMs: 0 })
+  })
+
+  it('weights inputs by expected rows', async () => {
+    const progress = await mergeWithProgress('CSV', {
+      inputs: [Readable.from(['a\n1\n2\n3\n']), Readable.from(['a\n4\n'])],
+      expectedSizes: [{ rows: 3 }, { rows: 1 }],
+    })
+
+    const second = progress.find(({ inputIndex }) => inputIndex === 1)!
+    expect(second).toMatchObject({ inputRows: 0, inputExpectedRows: 1, rows: 3, percent: 75 })
+    expect(second.etaMs).toBeGreaterThanOrEqual(0)
+  })
+
+  it('reports record batches of arrow inputs', async () => {
+    const table = new Table({ a: vectorFromArray([1, 2], new Int32()) })
+    const progress = await mergeWithProgress('ARROW_STREAM', {
+      inputs: [tableToIPC(table, 'stream'), tableToIPC(table, 'stream')].map((ipc) => Readable.from([Buffer.from(ipc)])),
+    })
+
+    expect(progress[progress.length - 1]).toMatchObject({ inputIndex: 1, inputBatches: 1, batches: 2, rows: 4, percent: 100 })
+  })
+
+  it('uses the Content-Length of url inputs as their expected bytes', async () => {
+    const { baseUrl, close } = await createLocalHttpServer(new Map([
+      ['/c0.csv', 'a\n1\n2\n'],
+      ['/c1.csv', 'a\n3\n'],
+    ]))
+
+    try {
+      const progress: MergeOptionsProgress[] = []
+      const output = new PassThrough()
+      const outPromise = collectToString(output)
+
+      await mergeStreamsFromUrls('CSV', {
+        urls: [`${baseUrl}/c0.csv`, `${baseUrl}/c1.csv`],
+        output,
+        onProgress: (p) => progress.push(p),
+        progressIntervalMs: 0,
+      })
+
+      expect(await outPromise).toBe('a\n1\n2\n3\n')
+      expect(progress.find(({ inputIndex }) => inputIndex === 1)).toMatchObject({ inputExpectedBytes: 4 })
+      // Until the second input is opened, its share is unknown: the first one is half of the merge.
+      expect(progress.filter(({ inputIndex }) => inputIndex === 0).map(({ percent }) => percent)).toContain(50)
+      expect(progress.find(({ inputIndex }) => inputIndex === 1)!.percent).toBe(60)
+    } finally {
+      await close()
+    }
+  })
+
+  it('uses the Content-Length of bodies opened by openUrlAsReadable, decompressed or not', async () => {
+    const gzipped = gzipSync('a\n3\n4\n')
+    const { baseUrl, close } = await createLocalHttpServer(new Map([
+      ['/c0.csv', 'a\n1\n2\n'],
+      ['/c1.csv.gz', gzipped],
+    ]))
+
+    try {
+      const progress: MergeOptionsProgress[] = []
+      const output = new PassThrough()
+      const outPromise = collectToString(output)
+
+      const result = await mergeStreams('CSV', {
+        inputs: [() => openUrlAsReadable(`${baseUrl}/c0.csv`), () => openUrlAsReadable(`${baseUrl}/c1.csv.gz`)],
+        output,
+        onProgress: (p) => progress.push(p),
+        progressIntervalMs: 0,
+      })
+
+      expect(await outPromise).toBe('a\n1\n2\n3\n4\n')
+      expect(result.compressedInputBytes).toBe(gzipped.length)
+      expect(progress.find(({ inputIndex }) => inputIndex === 0)).toMatchObject({ inputExpectedBytes: 6 })
+      expect(progress.find(({ inputIndex }) => inputIndex === 1)).toMatchObject({ inputExpectedBytes: gzipped.length })
+      expect(progress[progress.length - 1]).toMatchObject({ percent: 100 })
+    } finally {
+      await close()
+    }
+  })
+})
+
+describe('mergeStreams limit and offset', () => {
+  const mergeWindow = async (format: MergeFormat, inputs: MergeOptions['inputs'], extra: Partial<MergeOptions>) => {
+    const output = new PassThrough()
+    const outPromise = collectToBuffer(output)
+    const result = await mergeStreams(format, { inputs, output, ...extra })
+    return { out: await outPromise, result }
+  }
+
+  it('writes the CSV rows in the window, closing the current input and never opening the rest', async () => {
+    // The second input never ends, so the merge only completes by closing it.
+    const open = new Readable({ read() {} })
+    open.push('a\n3\n4\n')
+    const opened: number[] = []
+
+    const { out, result } = await mergeWindow('CSV', [
+      Readable.from(['a\n1\n2\n']),
+      () => (opened.push(1), open),
+      () => (opened.push(2), Readable.from(['a\n5\n'])),
+    ], { offset: 1, limit: 2 })
+
+    expect(out.toString()).toBe('a\n2\n3\n')
+    expect(result.rows).toBe(2)
+    expect(opened).toEqual([1])
+    expect(open.destroyed).toBe(true)
+  })
+
+  it('stops reading an input as soon as the window is full, even if it stalls', async () => {
+    for (const [format, data, expected, extra] of [
+      ['CSV', 'a\n1\n', 'a\n1\n', {}],
+      // The second input's header is its first row.
+      ['CSV', 'bcd\n', 'a\nbcd\n', { csv: { headerMismatch: 'passthrough' } }],
+      ['JSON_LINES', '123\n', '123\n', {}],
+      ['JSON_ARRAY', '[1,2', '[1]', {}],
+    ] as const) {
+      // The input never sends more, so the merge only completes without reading on.
+      const stalled = new Readable({ read() {} })
+      stalled.push(data)
+      const inputs = 'csv' in extra ? [Readable.from(['a\n']), stalled] : [stalled]
+
+      const { out } = await mergeWindow(format, inputs, { limit: 1, ...extra })
+      expect(out.toString()).toBe(expected)
+      expect(stalled.destroyed).toBe(true)
+    }
+  })
+
+  it('keeps the CSV header and JSON brackets when no row is in the window', async () => {
+    const csv = await mergeWindow('CSV', [Readable.from(['a,b\n1,2\n'])], { limit: 0 })
+    expect(csv.out.toString()).toBe('a,b\n')
+    expect(csv.result.header).toEqual(['a', 'b'])
+
+    const json = await mergeWindow('JSON_ARRAY', [Readable.from(['[1,2]'])], { offset: 5 })
+    expect(json.out.toString()).toBe('[]')
+  })
+
+  it('windows JSON array elements and lines across inputs', async () => {
+    const json = await mergeWindow('JSON_ARRAY', [Readable.from(['[1, {"a": [2]}]']), Readable.from(['[3, 4]'])], { offset: 1, limit: 2 })
+    expect(json.out.toString()).toBe('[{"a": [2]},3]')
+
+    const lines = await mergeWindow('JSON_LINES', [Readable.from(['1\n2\n']), Readable.from(['3\n'])], { offset: 1 })
+    expect(lines.out.toString()).toBe('2\n3\n')
+  })
+
+  it('slices the arrow batches straddling the window and ends the stream', async () => {
+    const batches = (from: number) => {
+      const table = new Table({ a: vectorFromArray([from, from + 1, from + 2], new Int32()) })
+      return Readable.from([Buffer.from(tableToIPC(table, 'stream'))])
+    }
+
+    const { out, result } = await mergeWindow('ARROW_STREAM', [batches(0), batches(3), batches(6)], { offset: 2, limit: 3 })
+    expect(tableFromIPC(out).getChild('a')!.toArray()).toEqual(Int32Array.from([2, 3, 4]))
+    expect(result).toMatchObject({ rows: 3, batches: 2 })
+
+    const empty = await mergeWindow('ARROW_STREAM', [batches(0)], { limit: 0 })
+    const table = tableFromIPC(empty.out)
+    expect(table.numRows).toBe(0)
+    expect(table.schema.fields.map(({ name }) => name)).toEqual(['a'])
+  })
+
+  it('rejects invalid limits and offsets', async () => {
+    await expect(mergeWindow('JSON_LINES', [Readable.from(['1\n'])], { limit: -1 }))
+      .rejects.toThrow('[mergeJsonLines] limit must be a non-negative integer')
+    await expect(mergeWindow('CSV', [Readable.from(['a\n'])], { offset: 1.5 }))
+      .rejects.toThrow('[mergeCsv] offset must be a non-negative integer')
+  })
+})
+
+describe('mergeStreams columns', () => {
+  const mergeColumns = async (format: MergeFormat, inputs: MergeOptions['inputs'], extra: Partial<MergeOptions>) => {
+    const output = new PassThrough()
+    const outPromise = collectToBuffer(output)
+    const result = await mergeStreams(format, { inputs, output, ...extra })
+    return { out: await outPromise, result }
+  }
+
+  it('selects CSV fields by header name or index, quote-aware', async () => {
+    const { out, result } = await mergeColumns('CSV', [
+      Readable.from(['a,b,c\n1,"x,y",3\n']),
+      Readable.from(['a,b,c\n4,"say ""hi""",6\n']),
+    ], { columns: ['b', 0] })
+
+    expect(out.toString()).toBe('b,a\n"x,y",1\n"say ""hi""",4\n')
+    expect(result.header).toEqual(['b', 'a'])
+  })
+
+  it('selects CSV columns of the merged header with reorder and union', async () => {
+    const reorder = await mergeColumns('CSV', [Readable.from(['a,b\n1,2\n']), Readable.from(['b,a\n3,4\n'])], {
+      columns: ['a'],
+      csv: { headerMismatch: 'reorder' },
+    })
+    expect(reorder.out.toString()).toBe('a\n1\n4\n')
+
+    const union = await mergeColumns('CSV', [Readable.from(['a\n1\n']), Readable.from(['b\n2\n'])], {
+      columns: ['b'],
+      csv: { headerMismatch: 'union' },
+    })
+    expect(union.out.toString()).toBe('b\n\n2\n')
+  })
+
+  it('fails on columns that are not in the header', async () => {
+    const error = await mergeColumns('CSV', [Readable.from(['a,b\n1,2\n'])], { columns: ['a', 'z'] }).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(SchemaError)
+    expect(error).toMatchObject({ message: '[mergeCsv] Column "z" is not in the header of input 0: [a, b]', inputIndex: 0 })
+    await expect(mergeColumns('CSV', [Readable.from(['a\n1\n'])], { columns: [1] }))
+      .rejects.toThrow('[mergeCsv] Column 1 is not in the header of input 0: [a]')
+  })
+
+  it('selects positions of JSON array rows without parsing their values', async () => {
+    const { out } = await mergeColumns('JSON_ARRAY', [
+      Readable.from(['[["1", 12345678901234567890, {"n": [1, 2]}], ["2", null]]']),
+    ], { columns: [2, 0] })
+
+    expect(out.toString()).toBe('[[{"n": [1, 2]},"1"],[null,"2"]]')
+  })
+
+  it('selects keys of JSON object rows, leaving out absent keys', async () => {
+    const rows = '[{"id": 1, "name": "a, \\"b\\"", "x": 0}, {"x": 1, "id": 2}]'
+
+    const json = await mergeColumns('JSON_ARRAY', [Readable.from([rows])], { columns: ['name', 'id'] })
+    expect(JSON.parse(json.out.toString())).toEqual([{ name: 'a, "b"', id: 1 }, { id: 2 }])
+
+    const lines = await mergeColumns('JSON_LINES', [Readable.from(['{"id": 1, "x": 0}\n{"x": 1}\n'])], { columns: ['id'] })
+    expect(lines.out.toString()).toBe('{"id":1}\n{}\n')
+  })
+
+  it('fails on JSON rows that do not match the kind of columns', async () => {
+    await expect(mergeColumns('JSON_ARRAY', [Readable.from(['[{"a": 1}]'])], { columns: [0] }))
+      .rejects.toThrow('[mergeJson] Columns of object elements must be names, got 0 (input 0)')
+    await expect(mergeColumns('JSON_LINES', [Readable.from(['1\n'])], { columns: ['a'] }))
+      .rejects.toThrow('[mergeJsonLines] Cannot select columns of a JSON element that is not an array or object (input 0)')
+  })
+
+  it('selects arrow columns and adjusts the schema', async () => {
+    const dictionary = new Dictionary(new Utf8(), new Int32())
+    const arrow = (values: string[]) => Readable.from([Buffer.from(tableToIPC(new Table({
+      a: vectorFromArray(values.map((_, i) => i), new Int32()),
+      b: vectorFromArray(values, dictionary),
+      c: vectorFromArray(values, new Utf8()),
+    }), 'stream'))])
+
+    const { out, result } = await mergeColumns('ARROW_STREAM', [arrow(['x', 'y']), arrow(['y', 'z'])], { columns: ['c', 1] })
+    const table = tableFromIPC(out)
+
+    expect(table.schema.fields.map(({ name }) => name)).toEqual(['c', 'b'])
+    expect(result.schema!.fields.map(({ name }) => name)).toEqual(['c', 'b'])
+    expect(table.getChild('c')!.toArray()).toEqual(['x', 'y', 'y', 'z'])
+    expect([...table.getChild('b')!]).toEqual(['x', 'y', 'y', 'z'])
+  })
+
+  it('rejects invalid columns', async () => {
+    await expect(mergeColumns('JSON_ARRAY', [Readable.from(['[]'])], { columns: [] }))
+      .rejects.toThrow('[mergeJson] columns must be a non-empty array of column names or non-negative indexes')
+    await expect(mergeColumns('ARROW_STREAM', [Readable.from([])], { columns: [-1] }))
+      .rejects.toThrow('[mergeArrow] columns must be a non-empty array of column names or non-negative indexes')
+  })
+})
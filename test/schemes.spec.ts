@@ -0,0 +1,95 @@
+import fsp from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { PassThrough, Readable } from 'node:stream'
+import { pathToFileURL } from 'node:url'
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mergeStreamsFromUrls } from '../src/mergeStreams.js'
+import { registerScheme } from '../src/schemes.js'
+import { collectToString, createLocalHttpServer } from './testUtil.js'
+
+describe('mergeStreamsFromUrls url schemes', () => {
+  let tmpDir: string
+
+  beforeAll(async () => {
+    tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'merge-streams-schemes-'))
+  })
+
+  afterAll(async () => {
+    await fsp.rm(tmpDir, { recursive: true, force: true })
+  })
+
+  it('mixes file:, data: and http(s) urls', async () => {
+    const file = path.join(tmpDir, 'cached chunk.csv')
+    await fsp.writeFile(file, 'a,b\n1,2\n')
+    const { baseUrl, close } = await createLocalHttpServer(new Map([['/c2.csv', 'a,b\n5,6\n']]))
+
+    try {
+      const pass = new PassThrough()
+      const outPromise = collectToString(pass)
+
+      await mergeStreamsFromUrls('CSV', {
+        urls: [
+          pathToFileURL(file).href,
+          `data:text/csv;base64,${Buffer.from('a,b\n3,4\n').toString('base64')}`,
+          `${baseUrl}/c2.csv`,
+          'data:text/csv,a%2Cb%0A7%2C8%0A',
+        ],
+        output: pass,
+      })
+
+      expect(await outPromise).toBe('a,b\n1,2\n3,4\n5,6\n7,8\n')
+    } finally {
+      await close()
+    }
+  })
+
+  it('opens registered schemes with their resolver', async () => {
+    const calls: [string, AbortSignal | undefined][] = []
+    registerScheme('test-s3', async (url, signal) => {
+      calls.push([url, signal])
+      return Readable.from([`[${JSON.stringify(new URL(url).pathname)}]`])
+    })
+
+    const controller = new AbortController()
+    const pass = new PassThrough()
+    const outPromise = collectToString(pass)
+
+    await mergeStreamsFromUrls('JSON_ARRAY', {
+      urls: ['test-s3://bucket/k0', 'TEST-S3://bucket/k1'],
+      output: pass,
+      signal: controller.signal,
+    })
+
+    expect(JSON.parse(await outPromise)).toEqual(['/k0', '/k1'])
+    expect(calls).toEqual([['test-s3://bucket/k0', controller.signal], ['TEST-S3://bucket/k1', controller.signal]])
+  })
+
+  it('reports every unsupported scheme before opening any input', async () => {
+    let opened = 0
+    registerScheme('test-counted:', async () => {
+      opened += 1
+      return Readable.from(['a\n'])
+    })
+
+    await expect(
+      mergeStreamsFromUrls('CSV', {
+        urls: ['test-counted://a', 'ftp://host/b.csv', 'dbfs:/c.csv', 'relative/d.csv'],
+        output: new PassThrough(),
+      }),
+    ).rejects.toThrow(
+      "Unsupported URL scheme in input 1 ('ftp:'): ftp://host/b.csv; input 2 ('dbfs:'): dbfs:/c.csv; input 3 (no scheme): relative/d.csv.",
+    )
+    expect(opened).toBe(0)
+  })
+
+  it('fails on a missing file when its input is opened', async () => {
+    await expect(
+      mergeStreamsFromUrls('CSV', { urls: [pathToFileURL(path.join(tmpDir, 'missing.csv')).href], output: new PassThrough() }),
+    ).rejects.toThrow(/ENOENT/)
+  })
+
+  it('rejects invalid scheme names', () => {
+    expect(() => registerScheme('s 3', async () => Readable.from([]))).toThrow('[registerScheme] Invalid URL scheme: s 3')
+  })
+})
@@ -1,18 +1,54 @@
 import http from 'node:http'
 
-export async function collectToString(stream: NodeJS.ReadableStream): Promise<string> {
+export async function collectToBuffer(stream: NodeJS.ReadableStream): Promise<Buffer> {
   const chunks: Buffer[] = []
   for await (const chunk of stream as AsyncIterable<Buffer | string>) {
     chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(String(chunk)))
   }
-  return Buffer.concat(chunks).toString('utf8')
+  return Buffer.concat(chunks)
+}
+
+export async function collectToString(stream: NodeJS.ReadableStream): Promise<string> {
+  return (await collectToBuffer(stream)).toString('utf8')
+}
+
+export type RouteHandler = (req: http.IncomingMessage, res: http.ServerResponse) => void
+
+/**
+ * Respond with a static body, honoring a single `Range: bytes=<start>-[<end>]` request header.
+ */
+export function sendBody(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  body: string | Buffer,
+  contentType = 'text/plain; charset=utf-8',
+): void {
+  const buf = Buffer.isBuffer(body) ? body : Buffer.from(body)
+  const range = /^bytes=(\d+)-(\d*)$/.exec(req.headers.range ?? '')
+
+  res.setHeader('content-type', contentType)
+  res.setHeader('accept-ranges', 'bytes')
+
+  if (!range) {
+    res.statusCode = 200
+    res.end(buf)
+    return
+  }
+
+  const start = Number(range[1])
+  const end = range[2] ? Math.min(Number(range[2]), buf.length - 1) : buf.length - 1
+  res.statusCode = 206
+  res.setHeader('content-range', `bytes ${start}-${end}/${buf.length}`)
+  res.end(buf.subarray(start, end + 1))
 }
 
 /**
  * Create a local HTTP server for testing purposes.
+ *
+ * Static routes honor Range requests; handler routes take full control of the response.
  */
 export async function createLocalHttpServer(
-  routes: Map<string, string | Buffer>,
+  routes: Map<string, string | Buffer | RouteHandler>,
   options: {
     host?: string
     contentType?: string
@@ -33,9 +69,12 @@ export async function createLocalHttpServer(
       return
     }
 
-    res.statusCode = 200
-    res.setHeader('content-type', contentType)
-    res.end(body)
+    if (typeof body === 'function') {
+      body(req, res)
+      return
+    }
+
+    sendBody(req, res, body, contentType)
   })
 
   await new Promise<void>((resolve, reject) => {